@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runFilejetManifestCli } from './src/node/cli';
+
+runFilejetManifestCli(process.argv.slice(2));
@@ -0,0 +1,5 @@
+export {
+  defineFilejetImgElement,
+  FilejetElementsConfig,
+  FilejetImgElement
+} from './src/elements/img';
@@ -0,0 +1,8 @@
+export {
+  createFilejetManifest,
+  CreateFilejetManifestOptions,
+  FilejetDecodedImage,
+  FilejetImageDecoder,
+  FilejetManifestSize
+} from './src/node/manifest';
+export { decodePng } from './src/node/png';
@@ -1,4 +1,62 @@
-export { LruCache, LruCacheProps } from './src/react/cache';
-export { Filejet, FilejetProps } from './src/react/filejet';
-export { Img, ImgProps } from './src/react/img';
+export {
+  capDpiScale,
+  defaultAdaptivePolicy,
+  FilejetAdaptive,
+  FilejetAdaptiveDecision,
+  FilejetAdaptiveOptions,
+  FilejetAdaptivePolicy,
+  FilejetNetworkConditions
+} from './src/react/adaptive';
+export { BackgroundImg, BackgroundImgProps } from './src/react/background';
+export {
+  Cache,
+  CacheStats,
+  IndexedDbCache,
+  IndexedDbCacheProps,
+  LruCache,
+  LruCacheProps,
+  StorageCache,
+  StorageCacheProps
+} from './src/react/cache';
+export { ThumbhashDecoder, ThumbhashDecoderOptions } from './src/react/decoder';
+export {
+  consoleDiagnosticsReporter,
+  FilejetDiagnostic,
+  FilejetDiagnosticCode,
+  FilejetDiagnostics,
+  FilejetDiagnosticsOptions,
+  FilejetDiagnosticsReporter
+} from './src/react/diagnostics';
+export { Filejet, FilejetConfigOverrides, FilejetProps } from './src/react/filejet';
+export { Gallery, GalleryImage, GalleryProps } from './src/react/gallery';
+export {
+  Img,
+  ImgErrorEvent,
+  ImgErrorNodeProps,
+  ImgLoadEvent,
+  ImgProps,
+  ImgRetryPolicy
+} from './src/react/img';
+export { FilejetInfoState, useFilejetInfo } from './src/react/info';
+export { FilejetImgMetrics, FilejetMetrics, FilejetMetricsOptions } from './src/react/metrics';
+export { Picture, PictureFormat, PictureProps, PictureSource } from './src/react/picture';
+export {
+  FilejetPreloadCollector,
+  FilejetPreloadLink,
+  FilejetPreloadLinks,
+  FilejetPreloadLinksProps
+} from './src/react/preload';
 export { FilejetProvider, FilejetProviderProps } from './src/react/provider';
+export {
+  FilejetDropzone,
+  FilejetDropzoneProps,
+  FilejetDropzoneState,
+  FilejetUpload,
+  FilejetUploadPreview,
+  FilejetUploadPreviewProps,
+  FilejetUploadState,
+  FilejetUploadStatus,
+  useFilejetUpload,
+  UseFilejetUploadOptions
+} from './src/react/upload';
+export { ImgViewer, ImgViewerImage, ImgViewerProps } from './src/react/viewer';
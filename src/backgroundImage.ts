@@ -0,0 +1,65 @@
+import { filejetImg, FilejetImgProps } from './filejetImg';
+
+export type FilejetBackgroundImageProps = Omit<FilejetImgProps, 'breakpoints' | 'sizes'>;
+
+export interface FilejetBackgroundImage {
+  /**
+   * URL of the 1x image.
+   */
+  readonly src: string;
+
+  /**
+   * The same candidates as the `image-set()` in the `srcset` format, e.g. to preload the image.
+   */
+  readonly srcSet: string | undefined;
+
+  /**
+   * Plain `url()` of the 1x image for browsers without `image-set()` support.
+   *
+   * @example 'url("https://cdn.filejet.io/abc/resize_128x128min,auto")'
+   */
+  readonly fallback: string;
+
+  /**
+   * `image-set()` with the candidate for each `dpiScale` entry.
+   *
+   * @example 'image-set(url("...") 1x, url("...") 2x)'
+   */
+  readonly imageSet: string;
+
+  /**
+   * `background-image` declarations with the fallback first, ready to be used in a stylesheet.
+   */
+  readonly css: string;
+}
+
+/**
+ * Returns the optimized CSS `background-image` values.
+ *
+ * Accepts the same props as `filejetImg`, except for the width-descriptor `breakpoints`.
+ */
+export function filejetBackgroundImage(props: FilejetBackgroundImageProps): FilejetBackgroundImage {
+  const { src, srcSet } = filejetImg(props);
+
+  const candidates = (srcSet?.split(', ') ?? [])
+    .filter(candidate => candidate !== '')
+    .map(candidate => {
+      const [url, descriptor] = candidate.split(' ');
+      return `${cssUrl(url)} ${descriptor}`;
+    });
+
+  const fallback = cssUrl(src);
+  const imageSet = candidates.length > 0 ? `image-set(${candidates.join(', ')})` : fallback;
+
+  return {
+    src,
+    srcSet: candidates.length > 0 ? srcSet : undefined,
+    fallback,
+    imageSet,
+    css: `background-image: ${fallback}; background-image: ${imageSet};`
+  };
+}
+
+function cssUrl(url: string): string {
+  return `url("${url.replace(/["\\\n]/g, c => encodeURIComponent(c))}")`;
+}
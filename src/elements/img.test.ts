@@ -0,0 +1,46 @@
+// @vitest-environment happy-dom
+import { thumbHashToDataURL } from 'thumbhash';
+import { afterAll, describe, expect, it } from 'vitest';
+import { installObserverShims } from '../testing/shims';
+import { parseThumbhash } from '../thumbhash';
+import { defineFilejetImgElement } from './img';
+
+const thumbhash = parseThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJUI')!;
+
+describe('FilejetImgElement', () => {
+  const shims = installObserverShims();
+
+  afterAll(() => shims.restore());
+
+  it('decodes the thumbhash by the shared decoder once the element intersects', () => {
+    const cache = new Map<string, string>();
+    defineFilejetImgElement({
+      domain: 'cdn.filejet.test',
+      thumbhashCache: cache,
+      thumbhashWorkers: 0
+    });
+
+    const elements = [0, 1].map(() => {
+      const element = document.createElement('filejet-img');
+      element.setAttribute('src', 'abc');
+      element.setAttribute('width', '100');
+      element.setAttribute('height', '100');
+      element.setAttribute('thumbhash', '1QcSHQRnh493V4dIh4eXh1h4kJUI');
+      document.body.append(element);
+      return element;
+    });
+    const thumbhashImage = (element: HTMLElement) =>
+      element.shadowRoot!.querySelector<HTMLImageElement>('.thumbhash')!;
+
+    expect(thumbhashImage(elements[0]).getAttribute('src')).toBeNull();
+
+    elements.forEach(element => shims.intersect(element));
+
+    elements.forEach(element => {
+      expect(thumbhashImage(element).getAttribute('src')).toBe(thumbHashToDataURL(thumbhash.data));
+    });
+    expect([...cache.keys()]).toEqual([thumbhash.id]);
+
+    elements.forEach(element => element.remove());
+  });
+});
@@ -0,0 +1,447 @@
+import { thumbHashToApproximateAspectRatio } from 'thumbhash';
+import { filejetImg, FilejetUrlSigner, ImgObjectFit } from '../filejetImg';
+import { LruCache } from '../react/cache';
+import { ThumbhashDecoder } from '../react/decoder';
+import type { ImgPriority } from '../react/img';
+import { FilejetRoute, routeFilejetSrc } from '../routing';
+import { ParsedThumbhash, parseThumbhash, thumbhashAverageColor } from '../thumbhash';
+
+export interface FilejetElementsConfig {
+  /**
+   * Filejet domain.
+   *
+   * Can be overridden by the `domain` attribute.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly domain?: string;
+
+  /**
+   * The DPI scale to use for the images.
+   *
+   * Can be overridden by the `dpi-scale` attribute, e.g. `dpi-scale="1,2"`.
+   *
+   * @default [1, 2]
+   */
+  readonly dpiScale?: number[];
+
+  /**
+   * Routing table deciding the Filejet domain of each image.
+   */
+  readonly routes?: FilejetRoute[];
+
+  /**
+   * Hosts of the external URLs allowed to be rendered.
+   */
+  readonly allowedHosts?: string[];
+
+  /**
+   * Base URL used to resolve relative image URLs.
+   *
+   * @default document.baseURI
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * Signs every generated URL.
+   */
+  readonly signer?: FilejetUrlSigner;
+
+  /**
+   * Cache for decoded thumbhash images.
+   */
+  readonly thumbhashCache?: {
+    get(key: string): string | undefined;
+    set(key: string, value: string): void;
+  };
+
+  /**
+   * The maximum number of Web Workers decoding the thumbhashes. `0` decodes thumbhashes on the main thread.
+   *
+   * @default One less than the number of CPU cores, at most 4.
+   */
+  readonly thumbhashWorkers?: number;
+
+  /**
+   * The root margin for decoding the thumbhash in pixels.
+   *
+   * @default 0
+   */
+  readonly intersectRootMargin?: number;
+}
+
+let globalConfig: FilejetElementsConfig = {};
+let thumbhashDecoder = createThumbhashDecoder(globalConfig);
+
+const observedAttributes = [
+  'src',
+  'width',
+  'height',
+  'fit',
+  'mutation',
+  'thumbhash',
+  'priority',
+  'alt',
+  'domain',
+  'dpi-scale'
+];
+
+const template = `
+<style>
+  :host { display: inline-block; position: relative; overflow: hidden; }
+  img, div { position: absolute; top: 0; left: 0; width: 100%; height: 100%; }
+  .image { z-index: 1; text-indent: -10000px; }
+  :host([data-state='loaded']) .thumbhash, :host([data-state='loaded']) .placeholder { display: none; }
+  :host([data-state='error']) .image { display: none; }
+  :host(:not([data-state='error'])) .error { display: none; }
+</style>
+<img class="thumbhash" alt="" aria-hidden="true" hidden />
+<div class="placeholder"><slot name="placeholder"></slot></div>
+<img class="image" alt="" />
+<div class="error"><slot name="error"></slot></div>
+`;
+
+// Allows to import the module on the server, where the elements are never defined.
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as typeof HTMLElement);
+
+/**
+ * Custom element which renders the image from/through the Filejet like the React `Img` component.
+ *
+ * Placeholder and error nodes are passed as `placeholder` and `error` slots.
+ * Dispatches `load` and `error` events.
+ * Image which cannot be rendered (e.g. before the domain is configured) has the `data-error` attribute with the reason.
+ *
+ * @example <filejet-img src="KRhBC0tycdeENyP1PQkgBA" height="168" fit="cover" alt="Photo"></filejet-img>
+ */
+export class FilejetImgElement extends BaseElement {
+  static readonly observedAttributes = observedAttributes;
+
+  private readonly image: HTMLImageElement;
+  private readonly thumbhashImage: HTMLImageElement;
+  private readonly placeholder: HTMLDivElement;
+
+  private renderedSrc: string | undefined;
+  private thumbhashAttribute: string | null = null;
+  private thumbhash: ParsedThumbhash | undefined;
+  private measuredSize: { width?: number; height?: number } = {};
+  private resizeObserver: ResizeObserver | undefined;
+  private intersectionObserver: IntersectionObserver | undefined;
+  private cancelDecode: (() => void) | undefined;
+
+  constructor() {
+    super();
+
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML = template;
+
+    this.image = root.querySelector('.image')!;
+    this.thumbhashImage = root.querySelector('.thumbhash')!;
+    this.placeholder = root.querySelector('.placeholder')!;
+
+    this.image.addEventListener('load', async () => {
+      const src = this.image.currentSrc;
+      // Hide placeholders after the image is decoded.
+      await this.image.decode().catch(() => {});
+      if (src !== this.image.currentSrc) return;
+
+      this.dataset.state = 'loaded';
+      // Placeholder is hidden, so its decoding is not needed anymore.
+      this.cancelDecode?.();
+      this.dispatchEvent(new Event('load'));
+    });
+
+    this.image.addEventListener('error', () => {
+      this.dataset.state = 'error';
+      this.dispatchEvent(new Event('error'));
+    });
+  }
+
+  connectedCallback() {
+    this.setAttribute('role', 'img');
+
+    this.resizeObserver = new ResizeObserver(() => this.measure());
+    this.resizeObserver.observe(this);
+
+    this.update();
+  }
+
+  disconnectedCallback() {
+    this.resizeObserver?.disconnect();
+    this.intersectionObserver?.disconnect();
+    this.cancelDecode?.();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+    if (oldValue === newValue || !this.isConnected) return;
+    this.update();
+  }
+
+  /**
+   * Renders the element again with the current global configuration.
+   */
+  refresh() {
+    this.renderedSrc = undefined;
+    // Placeholders pending in the replaced decoder are decoded again.
+    if (this.dataset.state !== 'loaded') this.thumbhashAttribute = null;
+    this.update();
+  }
+
+  private update() {
+    const src = this.getAttribute('src');
+    const domain = this.getAttribute('domain') ?? globalConfig.domain;
+    if (src == null) return;
+    // Lifecycle callbacks cannot throw, so the element waits in the error state for the configuration.
+    if (domain == null) {
+      this.fail('Filejet domain is not configured!');
+      return;
+    }
+
+    const alt = this.getAttribute('alt');
+    if (alt == null) {
+      this.removeAttribute('aria-label');
+    } else {
+      this.setAttribute('aria-label', alt);
+    }
+
+    const thumbhashAttribute = this.getAttribute('thumbhash');
+    if (thumbhashAttribute !== this.thumbhashAttribute) {
+      this.thumbhashAttribute = thumbhashAttribute;
+      this.thumbhash = thumbhashAttribute != null ? parseThumbhash(thumbhashAttribute) : undefined;
+      this.renderThumbhash();
+    }
+
+    const { width, height } = this.dimensions();
+    const fit = (this.getAttribute('fit') ?? 'contain') as ImgObjectFit;
+    const priority = this.getAttribute('priority') ?? 'auto';
+
+    this.style.width = isPercentage(this.getAttribute('width'))
+      ? this.getAttribute('width')!
+      : px(width);
+    this.style.height = isPercentage(this.getAttribute('height'))
+      ? this.getAttribute('height')!
+      : px(height);
+
+    for (const img of [this.image, this.thumbhashImage]) {
+      img.style.objectFit = fit;
+    }
+
+    // Percentage dimensions are fetched once measured by the resize observer.
+    const isMeasured =
+      (!isPercentage(this.getAttribute('width')) || this.measuredSize.width != null) &&
+      (!isPercentage(this.getAttribute('height')) || this.measuredSize.height != null);
+    if (!isMeasured) return;
+
+    const options = {
+      filejetDomain: domain,
+      routes: globalConfig.routes,
+      allowedHosts: globalConfig.allowedHosts,
+      baseUrl: globalConfig.baseUrl
+    };
+
+    const route = routeFilejetSrc(src, options);
+    if (route.type === 'rejected') {
+      this.fail(`Host "${route.host}" of the image "${src}" is not allowed!`);
+      return;
+    }
+
+    const dpiScale = this.getAttribute('dpi-scale')?.split(',').map(Number);
+    let attributes: ReturnType<typeof filejetImg>;
+    try {
+      attributes = filejetImg({
+        ...options,
+        src,
+        width,
+        height,
+        dpiScale: dpiScale ?? globalConfig.dpiScale ?? [1, 2],
+        fit,
+        backgroundColor: 'transparent',
+        mutation: this.getAttribute('mutation') ?? undefined,
+        signer: globalConfig.signer
+      });
+    } catch (error) {
+      this.fail(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    delete this.dataset.error;
+    const renderedSrc = `${attributes.src}|${attributes.srcSet ?? ''}`;
+    if (renderedSrc === this.renderedSrc) return;
+
+    this.renderedSrc = renderedSrc;
+    if (this.dataset.state !== 'loaded') this.dataset.state = 'loading';
+
+    this.image.loading = priority === 'high' ? 'eager' : 'lazy';
+    // We can decode the image in the next frame when thumbhash is provided.
+    this.image.decoding = priority === 'high' ? 'sync' : this.thumbhash != null ? 'async' : 'auto';
+    this.image.fetchPriority = priority as 'high' | 'low' | 'auto';
+    this.image.srcset = attributes.srcSet ?? '';
+    this.image.src = attributes.src;
+  }
+
+  private fail(reason: string) {
+    this.renderedSrc = undefined;
+    this.dataset.state = 'error';
+    this.dataset.error = reason;
+  }
+
+  /**
+   * Numeric dimensions of the image, either from attributes, measured or calculated from the thumbhash.
+   */
+  private dimensions(): { width: number | undefined; height: number | undefined } {
+    const width = this.getAttribute('width');
+    const height = this.getAttribute('height');
+
+    const numericWidth = isPercentage(width) ? this.measuredSize.width : toNumber(width);
+    const numericHeight = isPercentage(height) ? this.measuredSize.height : toNumber(height);
+
+    if (numericWidth != null && numericHeight == null && this.thumbhash != null) {
+      const ratio = thumbHashToApproximateAspectRatio(this.thumbhash.data);
+      return { width: numericWidth, height: Math.round(numericWidth / ratio) };
+    }
+
+    if (numericWidth == null && numericHeight != null && this.thumbhash != null) {
+      const ratio = thumbHashToApproximateAspectRatio(this.thumbhash.data);
+      return { width: Math.round(numericHeight * ratio), height: numericHeight };
+    }
+
+    return { width: numericWidth, height: numericHeight };
+  }
+
+  private measure() {
+    const isPercentageWidth = isPercentage(this.getAttribute('width'));
+    const isPercentageHeight = isPercentage(this.getAttribute('height'));
+    if (!isPercentageWidth && !isPercentageHeight) return;
+
+    const { width, height } = this.measuredSize;
+    const newWidth = this.clientWidth;
+    const newHeight = this.clientHeight;
+    if ((isPercentageWidth && newWidth === 0) || (isPercentageHeight && newHeight === 0)) return;
+
+    const widthChanged =
+      isPercentageWidth && (width == null || newWidth > 1.5 * width || newWidth < 0.75 * width);
+    const heightChanged =
+      isPercentageHeight &&
+      (height == null || newHeight > 1.5 * height || newHeight < 0.75 * height);
+
+    if (widthChanged || heightChanged) {
+      this.measuredSize = {
+        width: isPercentageWidth ? newWidth : undefined,
+        height: isPercentageHeight ? newHeight : undefined
+      };
+      this.update();
+    }
+  }
+
+  private renderThumbhash() {
+    this.intersectionObserver?.disconnect();
+    this.cancelDecode?.();
+    this.thumbhashImage.removeAttribute('src');
+
+    const thumbhash = this.thumbhash;
+    this.placeholder.hidden = thumbhash != null;
+    this.thumbhashImage.hidden = thumbhash == null;
+    if (thumbhash == null) return;
+
+    this.thumbhashImage.style.backgroundColor = thumbhashAverageColor(thumbhash);
+
+    const decode = () => {
+      // Skip if the image is already loaded, e.g. from the browser's cache.
+      if (this.dataset.state === 'loaded' || this.thumbhash !== thumbhash) return;
+
+      const priority = (this.getAttribute('priority') ?? 'auto') as ImgPriority;
+      this.cancelDecode = thumbhashDecoder.decode(thumbhash, priority, src => {
+        if (this.dataset.state === 'loaded' || this.thumbhash !== thumbhash) return;
+        this.thumbhashImage.src = src;
+      });
+    };
+
+    if (this.getAttribute('priority') === 'high') {
+      requestAnimationFrame(decode);
+      return;
+    }
+
+    this.intersectionObserver = new IntersectionObserver(
+      entries => {
+        if (!entries.some(entry => entry.isIntersecting)) return;
+        this.intersectionObserver?.disconnect();
+
+        if (this.getAttribute('priority') === 'low') {
+          (window.requestIdleCallback ?? requestAnimationFrame)(decode);
+        } else {
+          decode();
+        }
+      },
+      { rootMargin: `${globalConfig.intersectRootMargin ?? 0}px` }
+    );
+    this.intersectionObserver.observe(this);
+  }
+}
+
+/**
+ * Sets the global configuration and defines the `<filejet-img>` custom element.
+ *
+ * Configuration applies to all elements, including the already rendered ones.
+ */
+export function defineFilejetImgElement(
+  config: FilejetElementsConfig,
+  tagName = 'filejet-img'
+): void {
+  const previousConfig = globalConfig;
+  globalConfig = config;
+
+  if (
+    config.thumbhashCache !== previousConfig.thumbhashCache ||
+    config.thumbhashWorkers !== previousConfig.thumbhashWorkers
+  ) {
+    thumbhashDecoder.terminate();
+    thumbhashDecoder = createThumbhashDecoder(config);
+  }
+
+  if (customElements.get(tagName) == null) {
+    customElements.define(tagName, FilejetImgElement);
+    return;
+  }
+
+  document.querySelectorAll(tagName).forEach(element => {
+    if (element instanceof FilejetImgElement && element.isConnected) element.refresh();
+  });
+}
+
+/**
+ * Elements share one decoder, so the same thumbhash is decoded only once.
+ */
+function createThumbhashDecoder(config: FilejetElementsConfig): ThumbhashDecoder {
+  const cache = config.thumbhashCache;
+  return new ThumbhashDecoder({
+    cache:
+      cache != null
+        ? {
+            has: key => cache.get(key) != null,
+            get: key => cache.get(key),
+            set: (key, value) => cache.set(key, value)
+          }
+        : new LruCache({ maxSize: 100 }),
+    workers: config.thumbhashWorkers
+  });
+}
+
+function isPercentage(value: string | null): value is `${string}%` {
+  return value?.endsWith('%') ?? false;
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value == null || value === '') return;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function px(value: number | undefined): string {
+  return value != null ? `${value}px` : '';
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'filejet-img': FilejetImgElement;
+  }
+}
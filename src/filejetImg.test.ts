@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { filejetImg, FilejetImgProps } from './filejetImg';
+
+const props: FilejetImgProps = {
+  src: 'abc',
+  width: 100,
+  height: 100,
+  fit: 'cover',
+  focalPoint: { x: 0.9, y: 0.5 },
+  dpiScale: [1],
+  backgroundColor: 'transparent',
+  filejetDomain: 'cdn.filejet.io'
+};
+
+describe('filejetImg', () => {
+  it('crops exactly around the focal point with the aspect ratio', () => {
+    expect(filejetImg({ ...props, aspectRatio: 2 }).src).toBe(
+      'https://cdn.filejet.io/abc/resize_100x100min,crop_100x100+100+0,auto'
+    );
+  });
+
+  it('uses the nearest gravity without the aspect ratio', () => {
+    expect(filejetImg(props).src).toBe(
+      'https://cdn.filejet.io/abc/resize_100x100min,gravity_east,fit_100x100,bg_transparent,auto'
+    );
+  });
+});
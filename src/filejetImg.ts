@@ -1,7 +1,34 @@
-import { assertUnreachable, base64UrlEncode, isNotNil } from './helpers';
+import { assertUnreachable, isNotNil } from './helpers';
+import { Mutation, MutationLike, mutationToString } from './mutation';
+import { FilejetRoute, routeFilejetSrc } from './routing';
 
 export type ImgObjectFit = 'contain' | 'cover';
 
+export type ImgGravity =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+/**
+ * Either the named gravity or normalized coordinates (0-1) of the most important point of the image.
+ */
+export type ImgFocalPoint = ImgGravity | { readonly x: number; readonly y: number };
+
+/**
+ * Signs the Filejet URLs generated by `filejetImg`.
+ *
+ * - Function is called with every unsigned URL and returns the signed one.
+ * - Object maps unsigned URLs to precomputed signed ones (see `signFilejetImg`).
+ *   URLs without the precomputed signature are left unsigned.
+ */
+export type FilejetUrlSigner = ((url: string) => string) | Readonly<Record<string, string>>;
+
 export interface FilejetImgProps {
   /**
    * Either the Filejet file ID or URL to the external image.
@@ -25,6 +52,25 @@ export interface FilejetImgProps {
    */
   readonly dpiScale: number[];
 
+  /**
+   * List of image widths in pixels used to generate the width-descriptor (`w`) srcSet.
+   *
+   * When specified, `dpiScale` is ignored and the browser picks the best candidate
+   * based on the `sizes` attribute and the device pixel ratio.
+   *
+   * @example [320, 640, 1024, 1920]
+   */
+  readonly breakpoints?: number[];
+
+  /**
+   * The `sizes` attribute describing the rendered width of the image.
+   *
+   * Used together with `breakpoints`.
+   *
+   * @example '(max-width: 768px) 100vw, 50vw'
+   */
+  readonly sizes?: string;
+
   /**
    * Specifies how to resize the image to fit the specified width/height.
    *
@@ -33,6 +79,22 @@ export interface FilejetImgProps {
    */
   readonly fit: ImgObjectFit;
 
+  /**
+   * The point of the image which should remain visible when the image is cropped by `cover` fit.
+   *
+   * @default 'center'
+   * @example { x: 0.5, y: 0.2 }
+   */
+  readonly focalPoint?: ImgFocalPoint;
+
+  /**
+   * Aspect ratio (width / height) of the original image.
+   *
+   * Used to crop the image exactly around the `focalPoint`.
+   * When unknown, the nearest gravity is used instead.
+   */
+  readonly aspectRatio?: number;
+
   /**
    * Background color to use when resizing the image.
    *
@@ -44,8 +106,10 @@ export interface FilejetImgProps {
    * Additional mutation to apply to the image.
    *
    * Image is ALWAYS auto-resized to the specified width and height by default.
+   *
+   * @example mutation().grayscale().quality(80)
    */
-  readonly mutation?: string;
+  readonly mutation?: MutationLike;
 
   /**
    * Filejet domain.
@@ -57,7 +121,7 @@ export interface FilejetImgProps {
   readonly filejetDomain: string;
 
   /**
-   * @experimental Use with caution! It is recommended to use default `filejetDomain` for all files.
+   * @deprecated Use `routes` with the `direct` action instead.
    *
    * List of other Filejet domains.
    *
@@ -67,11 +131,43 @@ export interface FilejetImgProps {
    * @example ['other.filejet.io']
    */
   readonly otherFilejetDomains?: string[];
+
+  /**
+   * Routing table deciding the Filejet domain of each `src`, or whether the URL is proxied,
+   * mutated directly or left untouched. The first matching route is used.
+   *
+   * @example [{ host: 'eu.cdn.myapp.com', action: 'direct' }, { fileId: /^eu-/, action: 'filejet', domain: 'eu.cdn.myapp.com' }]
+   */
+  readonly routes?: FilejetRoute[];
+
+  /**
+   * Hosts of the external URLs allowed to be rendered. Leading `*.` matches any subdomain.
+   *
+   * Other URLs are rejected by throwing an error. All hosts are allowed when omitted.
+   *
+   * @example ['myapp.com', '*.myapp.com']
+   */
+  readonly allowedHosts?: string[];
+
+  /**
+   * Base URL used to resolve relative `src` URLs.
+   *
+   * Required for relative URLs during server-side rendering.
+   *
+   * @default document.baseURI
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * Signs every generated URL, so they cannot be tampered with.
+   */
+  readonly signer?: FilejetUrlSigner;
 }
 
 export interface HtmlImgProps {
   readonly src: string;
   readonly srcSet: string | undefined;
+  readonly sizes: string | undefined;
   readonly width: number | undefined;
   readonly height: number | undefined;
 }
@@ -80,52 +176,109 @@ export interface HtmlImgProps {
  * Returns the optimized props for the `<img />` element.
  */
 export function filejetImg(props: FilejetImgProps): HtmlImgProps {
+  const route = routeFilejetSrc(props.src, props);
+
+  if (route.type === 'rejected') {
+    throw new Error(`Host "${route.host}" of the image "${props.src}" is not allowed!`);
+  }
+
+  if (route.type === 'passthrough') {
+    return {
+      src: route.url,
+      srcSet: undefined,
+      sizes: undefined,
+      width: props.width,
+      height: props.height
+    };
+  }
+
+  const imageUrl = route.url;
+
+  if (props.breakpoints != null && props.breakpoints.length > 0) {
+    const { width, height } = props;
+    const ratio = width != null && height != null ? height / width : undefined;
+    const breakpoints = [...props.breakpoints].sort((a, b) => a - b);
+
+    return {
+      src:
+        width != null || height != null
+          ? imgSrc(width, height, 1)
+          : imgSrc(breakpoints[breakpoints.length - 1], undefined, 1),
+      srcSet: breakpoints
+        .map(bp => `${imgSrc(bp, ratio != null ? bp * ratio : undefined, 1)} ${bp}w`)
+        .join(', '),
+      sizes: props.sizes,
+      width,
+      height
+    };
+  }
+
   return {
-    src: imgSrc(1),
-    srcSet: props.dpiScale.map(scale => `${imgSrc(scale)} ${scale}x`).join(', '),
+    src: imgSrc(props.width, props.height, 1),
+    srcSet: props.dpiScale
+      .map(scale => `${imgSrc(props.width, props.height, scale)} ${scale}x`)
+      .join(', '),
+    sizes: undefined,
     width: props.width,
     height: props.height
   };
 
-  function imgSrc(scale: number): string {
+  function imgSrc(width: number | undefined, height: number | undefined, scale: number): string {
     const mutation = combineMutations(
-      resize(props.width, props.height, scale, props.fit, props.backgroundColor),
-      props.mutation,
+      resize(width, height, scale, props),
+      mutationToString(props.mutation),
       'auto'
     );
 
-    if (['https://', './', '../', '/', '//'].some(prefix => props.src.startsWith(prefix))) {
-      const url = new URL(props.src, globalThis.document?.baseURI);
+    return signUrl(`${imageUrl}/${mutation}`, props.signer);
+  }
+}
 
-      if (props.otherFilejetDomains?.some(domain => url.hostname === domain)) {
-        if (url.href.endsWith('/')) {
-          return `${url.href}${mutation}`;
-        } else {
-          return `${url.href}/${mutation}`;
-        }
-      }
+function signUrl(url: string, signer: FilejetUrlSigner | undefined): string {
+  if (signer == null) return url;
+  if (typeof signer === 'function') return signer(url);
+  return signer[url] ?? url;
+}
 
-      const externalId = `@ext_${base64UrlEncode(url.href)}`;
-      return `https://${props.filejetDomain}/${externalId}/${mutation}`;
-    }
+/**
+ * Returns the CSS `object-position` matching the focal point.
+ */
+export function focalPointToObjectPosition(focalPoint: ImgFocalPoint | undefined): string {
+  const { x, y } = focalPointCoordinates(focalPoint);
+  return `${Math.round(x * 100)}% ${Math.round(y * 100)}%`;
+}
 
-    return `https://${props.filejetDomain}/${props.src}/${mutation}`;
+function focalPointCoordinates(focalPoint: ImgFocalPoint | undefined): { x: number; y: number } {
+  if (focalPoint == null) return { x: 0.5, y: 0.5 };
+  if (typeof focalPoint !== 'string') {
+    return { x: clamp(focalPoint.x, 0, 1), y: clamp(focalPoint.y, 0, 1) };
   }
+
+  return {
+    x: focalPoint.endsWith('left') ? 0 : focalPoint.endsWith('right') ? 1 : 0.5,
+    y: focalPoint.startsWith('top') ? 0 : focalPoint.startsWith('bottom') ? 1 : 0.5
+  };
 }
 
 function resize(
   width: number | undefined,
   height: number | undefined,
   scale: number,
-  fit: ImgObjectFit,
-  backgroundColor: string
+  props: Pick<FilejetImgProps, 'fit' | 'backgroundColor' | 'focalPoint' | 'aspectRatio'>
 ): string | undefined {
   if (width == null && height == null) return;
 
+  const { fit, backgroundColor } = props;
   const r = Math.round;
 
   if (fit === 'cover') {
     if (width != null && height != null) {
+      const focus = focalPointCoordinates(props.focalPoint);
+
+      if (focus.x !== 0.5 || focus.y !== 0.5) {
+        return focalCrop(r(width * scale), r(height * scale), focus, props);
+      }
+
       return [
         `resize_${r(width * scale)}x${r(height * scale)}min`,
         `fit_${r(width * scale)}x${r(height * scale)}`,
@@ -163,10 +316,55 @@ function resize(
   assertUnreachable(fit);
 }
 
-function combineMutations(...mutations: Array<string | undefined>): string | undefined {
+/**
+ * Crops the image covering the specified dimensions around the focal point.
+ */
+function focalCrop(
+  width: number,
+  height: number,
+  focus: { x: number; y: number },
+  props: Pick<FilejetImgProps, 'backgroundColor' | 'aspectRatio'>
+): string {
+  if (props.aspectRatio == null) {
+    return [
+      `resize_${width}x${height}min`,
+      `gravity_${nearestGravity(focus)}`,
+      `fit_${width}x${height}`,
+      `bg_${props.backgroundColor}`
+    ].join(',');
+  }
+
+  // Dimensions of the image after `resize_WxHmin`, which covers the requested dimensions.
+  const resizedWidth = Math.max(width, Math.round(height * props.aspectRatio));
+  const resizedHeight = Math.max(height, Math.round(width / props.aspectRatio));
+
+  const x = clamp(Math.round(focus.x * resizedWidth - width / 2), 0, resizedWidth - width);
+  const y = clamp(Math.round(focus.y * resizedHeight - height / 2), 0, resizedHeight - height);
+
+  return [
+    `resize_${width}x${height}min`,
+    new Mutation().crop({ width, height, x, y }).toString()
+  ].join(',');
+}
+
+/**
+ * Returns the compass gravity nearest to the focal point.
+ */
+function nearestGravity(focus: { x: number; y: number }): string {
+  const vertical = focus.y < 1 / 3 ? 'north' : focus.y > 2 / 3 ? 'south' : '';
+  const horizontal = focus.x < 1 / 3 ? 'west' : focus.x > 2 / 3 ? 'east' : '';
+  return vertical + horizontal || 'center';
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+export function combineMutations(...mutations: Array<string | undefined>): string | undefined {
   if (mutations.length === 0) return;
   return mutations
     .filter(isNotNil)
     .map(m => m.trim())
+    .filter(m => m !== '')
     .join(',');
 }
@@ -0,0 +1,130 @@
+export interface GalleryLayoutTile {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface GalleryLayout {
+  /**
+   * Position of each image in pixels, in the order of the aspect ratios.
+   */
+  readonly tiles: GalleryLayoutTile[];
+
+  /**
+   * Total height of the gallery in pixels.
+   */
+  readonly height: number;
+}
+
+export interface JustifiedGalleryLayoutOptions {
+  readonly containerWidth: number;
+
+  /**
+   * The maximum height of the row. Rows are shrunk to fill the whole container width.
+   */
+  readonly rowHeight: number;
+
+  /**
+   * Space between the images in pixels.
+   */
+  readonly gap: number;
+}
+
+/**
+ * Places the images into rows of the same height filling the whole container width.
+ *
+ * The last row keeps the `rowHeight` and is aligned to the left.
+ *
+ * @example justifiedGalleryLayout([1.5, 0.75, 1], { containerWidth: 960, rowHeight: 240, gap: 8 })
+ */
+export function justifiedGalleryLayout(
+  aspectRatios: number[],
+  options: JustifiedGalleryLayoutOptions
+): GalleryLayout {
+  const { containerWidth, rowHeight, gap } = options;
+  const tiles: GalleryLayoutTile[] = [];
+
+  let y = 0;
+  let row: number[] = [];
+
+  const placeRow = (height: number, isFull: boolean) => {
+    let x = 0;
+    row.forEach((aspectRatio, index) => {
+      // Rounded edges do not leave subpixel gaps, the last image absorbs the rounding.
+      const isLast = isFull && index === row.length - 1;
+      const width = isLast ? containerWidth - x : Math.round(x + height * aspectRatio) - x;
+      tiles.push({ x, y, width, height: Math.round(height) });
+      x += width + gap;
+    });
+
+    y += Math.round(height) + gap;
+    row = [];
+  };
+
+  for (const aspectRatio of aspectRatios) {
+    row.push(aspectRatio);
+
+    const ratios = row.reduce((sum, ratio) => sum + ratio, 0);
+    const height = (containerWidth - gap * (row.length - 1)) / ratios;
+    if (height <= rowHeight) placeRow(height, true);
+  }
+
+  if (row.length > 0) placeRow(rowHeight, false);
+
+  return { tiles, height: Math.max(0, y - gap) };
+}
+
+export interface MasonryGalleryLayoutOptions {
+  readonly containerWidth: number;
+
+  /**
+   * The minimum width of the column. As many columns as fit into the container are used.
+   */
+  readonly columnWidth: number;
+
+  /**
+   * The fixed number of columns. Takes precedence over the `columnWidth`.
+   */
+  readonly columns?: number;
+
+  /**
+   * Space between the images in pixels.
+   */
+  readonly gap: number;
+}
+
+/**
+ * Places each image into the shortest column, keeping its aspect ratio.
+ *
+ * @example masonryGalleryLayout([1.5, 0.75, 1], { containerWidth: 960, columnWidth: 300, gap: 8 })
+ */
+export function masonryGalleryLayout(
+  aspectRatios: number[],
+  options: MasonryGalleryLayoutOptions
+): GalleryLayout {
+  const { containerWidth, columnWidth, gap } = options;
+  const columns = Math.max(
+    1,
+    options.columns ?? Math.floor((containerWidth + gap) / (columnWidth + gap))
+  );
+
+  const width = (containerWidth - gap * (columns - 1)) / columns;
+  const heights: number[] = new Array(columns).fill(0);
+
+  const tiles = aspectRatios.map(aspectRatio => {
+    const column = heights.indexOf(Math.min(...heights));
+    const x = Math.round(column * (width + gap));
+    const tile = {
+      x,
+      y: heights[column],
+      width: Math.round((column + 1) * (width + gap) - gap) - x,
+      height: Math.round(width / aspectRatio)
+    };
+
+    heights[column] += tile.height + gap;
+    return tile;
+  });
+
+  return { tiles, height: Math.max(0, Math.max(...heights) - gap) };
+}
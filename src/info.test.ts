@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FilejetFileInfo, FilejetInfoClient, FilejetInfoError } from './info';
+import { createFilejetInfoMock } from './testing/info';
+
+const files: FilejetFileInfo[] = [
+  { id: 'abc', width: 800, height: 600, format: 'jpeg', size: 1024 },
+  { id: 'def', width: 600, height: 800, format: 'png', size: 2048 }
+];
+
+describe('FilejetInfoClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches the lookups made within the batch delay', async () => {
+    const mock = createFilejetInfoMock(files);
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.io', fetch: mock.fetch });
+
+    const abc = client.get('abc');
+    await vi.advanceTimersByTimeAsync(5);
+    const def = client.get('def');
+    expect(mock.requests).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(await abc).toEqual(files[0]);
+    expect(await def).toEqual(files[1]);
+    expect(mock.requests).toEqual([['abc', 'def']]);
+  });
+
+  it('flushes the batch once it reaches the maximum size', async () => {
+    const mock = createFilejetInfoMock(files);
+    const client = new FilejetInfoClient({
+      domain: 'cdn.filejet.io',
+      maxBatchSize: 2,
+      fetch: mock.fetch
+    });
+
+    const results = Promise.all([client.get('abc'), client.get('def'), client.get('ghi')]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mock.requests).toEqual([['abc', 'def']]);
+
+    await vi.runAllTimersAsync();
+
+    expect(await results).toEqual([files[0], files[1], undefined]);
+    expect(mock.requests).toEqual([['abc', 'def'], ['ghi']]);
+  });
+
+  it('fetches the same file only once at the same time', async () => {
+    const mock = createFilejetInfoMock(files);
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.io', fetch: mock.fetch });
+
+    const first = client.get('abc');
+    const second = client.get('abc');
+    await vi.runAllTimersAsync();
+
+    expect(first).toBe(second);
+    expect(await first).toEqual(files[0]);
+    expect(mock.requests).toEqual([['abc']]);
+  });
+
+  it('rejects all lookups of the failed batch', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 503 }));
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.io', fetch });
+
+    const abc = client.get('abc').catch(error => error);
+    const def = client.get('def').catch(error => error);
+    await vi.runAllTimersAsync();
+
+    for (const error of [await abc, await def]) {
+      expect(error).toBeInstanceOf(FilejetInfoError);
+      expect(error).toMatchObject({ status: 503 });
+    }
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves the cached info and missing files without the request', async () => {
+    const mock = createFilejetInfoMock(files);
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.io', fetch: mock.fetch });
+
+    const lookups = Promise.all([client.get('abc'), client.get('ghi')]);
+    await vi.runAllTimersAsync();
+    await lookups;
+
+    expect(client.peek('abc')).toEqual(files[0]);
+    expect(client.peek('ghi')).toBeNull();
+    expect(await client.get('abc')).toEqual(files[0]);
+    expect(await client.get('ghi')).toBeUndefined();
+    expect(mock.requests).toEqual([['abc', 'ghi']]);
+  });
+
+  it('fetches the corrupted cached info again', async () => {
+    const mock = createFilejetInfoMock(files);
+    const cache = new Map([['abc', '{"id":']]);
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.io', cache, fetch: mock.fetch });
+
+    expect(client.peek('abc')).toBeUndefined();
+
+    const abc = client.get('abc');
+    await vi.runAllTimersAsync();
+
+    expect(await abc).toEqual(files[0]);
+    expect(cache.get('abc')).toBe(JSON.stringify(files[0]));
+  });
+});
@@ -0,0 +1,206 @@
+import type { Cache } from './react/cache';
+
+export interface FilejetFileInfo {
+  /**
+   * Filejet file ID.
+   */
+  readonly id: string;
+
+  /**
+   * Width of the original image in pixels.
+   */
+  readonly width: number;
+
+  /**
+   * Height of the original image in pixels.
+   */
+  readonly height: number;
+
+  /**
+   * Format of the original file.
+   *
+   * @example 'jpeg'
+   */
+  readonly format: string;
+
+  /**
+   * Size of the original file in bytes.
+   */
+  readonly size: number;
+
+  /**
+   * Thumbhash of the image, if available.
+   */
+  readonly thumbhash?: string;
+}
+
+export interface FilejetInfoClientProps {
+  /**
+   * Filejet domain.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly domain: string;
+
+  /**
+   * Info endpoint. File IDs are passed as the comma-separated `ids` query parameter
+   * and the response maps each ID to its info (or `null` when the file does not exist).
+   *
+   * @default `https://${domain}/info`
+   */
+  readonly endpoint?: string;
+
+  /**
+   * Returns additional headers (e.g. authorization) sent with every request.
+   */
+  readonly headers?: () => Record<string, string> | Promise<Record<string, string>>;
+
+  /**
+   * Cache of the fetched info, stored as JSON.
+   *
+   * Persistent caches (`StorageCache`, `IndexedDbCache`) keep the info across page loads.
+   *
+   * @default new Map()
+   */
+  readonly cache?: Cache<string, string>;
+
+  /**
+   * Lookups made within this time (in milliseconds) are fetched by a single request.
+   *
+   * @default 10
+   */
+  readonly batchDelay?: number;
+
+  /**
+   * The maximum number of file IDs fetched by a single request.
+   *
+   * @default 50
+   */
+  readonly maxBatchSize?: number;
+
+  /**
+   * Custom `fetch` implementation.
+   *
+   * @default globalThis.fetch
+   */
+  readonly fetch?: typeof fetch;
+}
+
+export class FilejetInfoError extends Error {
+  constructor(
+    message: string,
+    /**
+     * HTTP status of the failed request, if any.
+     */
+    readonly status: number | undefined
+  ) {
+    super(message);
+    this.name = 'FilejetInfoError';
+  }
+}
+
+interface PendingLookup {
+  readonly resolve: (info: FilejetFileInfo | undefined) => void;
+  readonly reject: (error: unknown) => void;
+}
+
+/**
+ * Framework-agnostic client which fetches the info (dimensions, format, size and thumbhash) of Filejet files.
+ *
+ * Concurrent lookups are batched into a single request and the same file is never fetched twice at the same time.
+ */
+export class FilejetInfoClient {
+  private readonly endpoint: string;
+  private readonly cache: Cache<string, string>;
+  private readonly inFlight = new Map<string, Promise<FilejetFileInfo | undefined>>();
+  private pending = new Map<string, PendingLookup>();
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly props: FilejetInfoClientProps) {
+    this.endpoint = props.endpoint ?? `https://${props.domain}/info`;
+    this.cache = props.cache ?? new Map();
+  }
+
+  /**
+   * Returns the cached info synchronously, `null` when the file is known not to exist
+   * and `undefined` when the info is not cached.
+   */
+  peek(id: string): FilejetFileInfo | null | undefined {
+    const cached = this.cache.get(id);
+    if (cached == null) return;
+
+    try {
+      return JSON.parse(cached);
+    } catch {
+      // Corrupted value (e.g. of the persistent cache) is fetched again.
+      return;
+    }
+  }
+
+  /**
+   * Returns the info of the file, or `undefined` when the file does not exist.
+   */
+  get(id: string): Promise<FilejetFileInfo | undefined> {
+    const cached = this.peek(id);
+    if (cached !== undefined) return Promise.resolve(cached ?? undefined);
+
+    const inFlight = this.inFlight.get(id);
+    if (inFlight != null) return inFlight;
+
+    const promise = new Promise<FilejetFileInfo | undefined>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+    }).finally(() => this.inFlight.delete(id));
+    this.inFlight.set(id, promise);
+
+    if (this.pending.size >= (this.props.maxBatchSize ?? 50)) {
+      this.flush();
+    } else {
+      this.timeout ??= setTimeout(() => this.flush(), this.props.batchDelay ?? 10);
+    }
+
+    return promise;
+  }
+
+  private flush() {
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+
+    const batch = this.pending;
+    this.pending = new Map();
+    if (batch.size > 0) this.fetchBatch(batch);
+  }
+
+  private async fetchBatch(batch: Map<string, PendingLookup>) {
+    try {
+      const fetchFn = this.props.fetch ?? globalThis.fetch;
+      const ids = [...batch.keys()].map(encodeURIComponent).join(',');
+      const response = await fetchFn(`${this.endpoint}?ids=${ids}`, {
+        headers: { Accept: 'application/json', ...(await this.props.headers?.()) }
+      });
+
+      if (!response.ok) {
+        throw new FilejetInfoError(
+          `Info request failed with status ${response.status}!`,
+          response.status
+        );
+      }
+
+      const files: Record<string, FilejetFileInfo | null | undefined> = await response.json();
+
+      batch.forEach(({ resolve }, id) => {
+        const info = files[id] ?? null;
+        this.cache.set(id, JSON.stringify(info));
+        resolve(info ?? undefined);
+      });
+    } catch (error) {
+      const infoError =
+        error instanceof FilejetInfoError
+          ? error
+          : new FilejetInfoError(
+              `Info request failed! ${error instanceof Error ? error.message : error}`,
+              undefined
+            );
+      batch.forEach(({ reject }) => reject(infoError));
+    }
+  }
+}
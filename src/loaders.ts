@@ -0,0 +1,140 @@
+import { filejetImg, FilejetImgProps } from './filejetImg';
+import { Mutation, MutationFormat, mutationToString } from './mutation';
+
+export interface FilejetLoaderOptions
+  extends Pick<
+    FilejetImgProps,
+    | 'filejetDomain'
+    | 'routes'
+    | 'allowedHosts'
+    | 'otherFilejetDomains'
+    | 'baseUrl'
+    | 'signer'
+    | 'focalPoint'
+    | 'mutation'
+  > {
+  /**
+   * Specifies how to resize the image to fit the requested width/height.
+   */
+  readonly fit?: FilejetImgProps['fit'];
+
+  /**
+   * Background color to use when resizing the image.
+   *
+   * @default 'transparent'
+   */
+  readonly backgroundColor?: string;
+
+  /**
+   * Maps the quality requested by the framework (1-100) onto the Filejet quality.
+   *
+   * Return `undefined` to let the Filejet pick the quality automatically.
+   * When the framework does not request any quality, the Filejet picks it automatically.
+   *
+   * @default quality => quality
+   * @example quality => Math.min(quality, 80)
+   */
+  readonly quality?: (quality: number) => number | undefined;
+}
+
+export interface NextImageLoaderProps {
+  readonly src: string;
+  readonly width: number;
+  readonly quality?: number;
+}
+
+/**
+ * Creates the `loader` for the Next.js `next/image` component.
+ *
+ * Images are shrunk to the requested width by default, so they are never upscaled.
+ * Relative `src` (e.g. static imports under `/_next/static/media/`) requires the `baseUrl`, as there is no `document` during SSR.
+ *
+ * @example <Image loader={createNextImageLoader({ filejetDomain: 'cdn.myapp.com', baseUrl: 'https://myapp.com' })} src="KRhBC0tycdeENyP1PQkgBA" ... />
+ */
+export function createNextImageLoader(
+  options: FilejetLoaderOptions
+): (props: NextImageLoaderProps) => string {
+  return ({ src, width, quality }) => {
+    return loaderSrc(src, { width, quality }, options, 'contain');
+  };
+}
+
+export interface FilejetTransformOperations {
+  readonly width?: number;
+  readonly height?: number;
+  readonly quality?: number;
+
+  /**
+   * Output format. Unsupported formats are ignored and the format is picked automatically.
+   *
+   * @example 'webp'
+   */
+  readonly format?: string;
+}
+
+/**
+ * Creates the Unpic-style `transform` function (also usable in Astro image services).
+ *
+ * Images are covered to the requested width and height by default.
+ *
+ * @example const transform = createFilejetTransformer({ filejetDomain: 'cdn.myapp.com' });
+ */
+export function createFilejetTransformer(
+  options: FilejetLoaderOptions
+): (src: string | URL, operations: FilejetTransformOperations) => string {
+  return (src, operations) => {
+    return loaderSrc(src.toString(), operations, options, 'cover');
+  };
+}
+
+const formats: Partial<Record<string, MutationFormat>> = {
+  jpeg: 'jpeg',
+  jpg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  gif: 'gif'
+};
+
+function loaderSrc(
+  src: string,
+  operations: FilejetTransformOperations,
+  options: FilejetLoaderOptions,
+  defaultFit: FilejetImgProps['fit']
+): string {
+  const format = operations.format != null ? formats[operations.format.toLowerCase()] : undefined;
+  const quality =
+    operations.quality != null ? (options.quality ?? identity)(operations.quality) : undefined;
+
+  let mutation = new Mutation();
+  if (format != null) {
+    mutation = mutation.format(format);
+  }
+  // Lossless formats do not support quality.
+  if (quality != null && format !== 'png' && format !== 'gif') {
+    mutation = mutation.quality(Math.min(100, Math.max(1, Math.round(quality))));
+  }
+
+  return filejetImg({
+    src,
+    width: operations.width,
+    height: operations.height,
+    dpiScale: [1],
+    fit: options.fit ?? defaultFit,
+    focalPoint: options.focalPoint,
+    backgroundColor: options.backgroundColor ?? 'transparent',
+    mutation: [mutationToString(options.mutation), mutation.toString()]
+      .filter(m => m != null && m !== '')
+      .join(','),
+    filejetDomain: options.filejetDomain,
+    routes: options.routes,
+    allowedHosts: options.allowedHosts,
+    otherFilejetDomains: options.otherFilejetDomains,
+    baseUrl: options.baseUrl,
+    signer: options.signer
+  }).src;
+}
+
+function identity(quality: number): number {
+  return quality;
+}
@@ -0,0 +1,52 @@
+import type { HtmlImgProps } from './filejetImg';
+
+export interface FilejetManifestEntry {
+  /**
+   * Filejet file ID or URL of the image.
+   */
+  readonly src: string;
+
+  /**
+   * Width of the original image in pixels.
+   */
+  readonly width: number;
+
+  /**
+   * Height of the original image in pixels.
+   */
+  readonly height: number;
+
+  /**
+   * Width divided by the height of the original image.
+   */
+  readonly aspectRatio: number;
+
+  /**
+   * Thumbhash computed from the image pixels.
+   */
+  readonly thumbhash: string;
+
+  /**
+   * Props of the `<img />` element for each configured size.
+   *
+   * @example { thumbnail: { src: '...', srcSet: '... 1x, ... 2x', sizes: undefined, width: 200, height: 200 } }
+   */
+  readonly variants: Record<string, HtmlImgProps>;
+}
+
+/**
+ * JSON manifest generated by the `filejet-manifest` CLI or `createFilejetManifest`.
+ */
+export interface FilejetManifest {
+  readonly version: 1;
+
+  /**
+   * Filejet domain of the `variants`.
+   */
+  readonly domain: string;
+
+  /**
+   * Entries by the relative path of the local file, or by the file ID or URL.
+   */
+  readonly images: Record<string, FilejetManifestEntry>;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mutation, mutationToString } from './mutation';
+
+describe('Mutation', () => {
+  it('serializes the operations in the order of the calls', () => {
+    const value = mutation()
+      .crop({ width: 200, height: 100, x: 10 })
+      .rotate(90)
+      .flip('horizontal')
+      .flip('vertical')
+      .blur(2)
+      .sharpen(1)
+      .background('ff0000')
+      .grayscale()
+      .format('webp')
+      .quality(80);
+
+    expect(value.toString()).toBe(
+      'crop_200x100+10+0,rotate_90,flop,flip,blur_2,sharpen_1,bg_ff0000,grayscale,format_webp,quality_80'
+    );
+  });
+
+  it('does not change the shared mutation', () => {
+    const base = mutation().grayscale();
+
+    expect(base.rotate(90).toString()).toBe('grayscale,rotate_90');
+    expect(base.rotate(180).toString()).toBe('grayscale,rotate_180');
+    expect(base.toString()).toBe('grayscale');
+  });
+
+  it('applies the single-use operations only once', () => {
+    expect(() => mutation().quality(80).quality(90)).toThrow(
+      'Mutation "quality" can be applied only once!'
+    );
+    expect(() => mutation().format('webp').format('avif')).toThrow(
+      'Mutation "format" can be applied only once!'
+    );
+    expect(() => mutation().background('white').background('black')).toThrow(
+      'Mutation "background" can be applied only once!'
+    );
+    expect(() => mutation().grayscale().grayscale()).toThrow(
+      'Mutation "grayscale" can be applied only once!'
+    );
+    expect(mutation().rotate(90).rotate(90).toString()).toBe('rotate_90,rotate_90');
+  });
+
+  it('throws when the quality is combined with the lossless format', () => {
+    expect(() => mutation().format('png').quality(80)).toThrow(
+      'Mutation "quality" cannot be combined with lossless "png"!'
+    );
+    expect(() => mutation().quality(80).format('gif')).toThrow(
+      'Mutation "quality" cannot be combined with lossless "gif"!'
+    );
+    expect(mutation().quality(80).format('jpeg').toString()).toBe('quality_80,format_jpeg');
+  });
+
+  it('validates the values', () => {
+    expect(() => mutation().crop({ width: 0, height: 100 })).toThrow(
+      'Invalid crop width "0"! Expected a positive integer.'
+    );
+    expect(() => mutation().crop({ width: 100, height: 100, y: -1 })).toThrow(
+      'Invalid crop y "-1"! Expected a non-negative integer.'
+    );
+    expect(() => mutation().quality(101)).toThrow('Invalid quality "101"!');
+    expect(() => mutation().background('#fff')).toThrow('Invalid background color "#fff"!');
+  });
+});
+
+describe('mutationToString', () => {
+  it('converts the mutation or mutation string', () => {
+    expect(mutationToString(mutation().crop({ width: 10, height: 20 }))).toBe('crop_10x20+0+0');
+    expect(mutationToString('grayscale,blur_2')).toBe('grayscale,blur_2');
+    expect(mutationToString(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,270 @@
+import { assertUnreachable } from './helpers';
+
+export type MutationFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif';
+
+export type MutationRotation = 90 | 180 | 270;
+
+export type MutationFlip = 'horizontal' | 'vertical';
+
+/**
+ * Mutation (or mutation string) accepted by `filejetImg` and `Img`.
+ */
+export type MutationLike = string | Mutation;
+
+export interface MutationCrop {
+  /**
+   * The width of the cropped area in pixels.
+   */
+  readonly width: number;
+
+  /**
+   * The height of the cropped area in pixels.
+   */
+  readonly height: number;
+
+  /**
+   * The left offset of the cropped area in pixels.
+   *
+   * @default 0
+   */
+  readonly x?: number;
+
+  /**
+   * The top offset of the cropped area in pixels.
+   *
+   * @default 0
+   */
+  readonly y?: number;
+}
+
+export type MutationOperation =
+  | { readonly type: 'crop'; readonly crop: Required<MutationCrop> }
+  | { readonly type: 'rotate'; readonly angle: MutationRotation }
+  | { readonly type: 'flip'; readonly direction: MutationFlip }
+  | { readonly type: 'blur'; readonly radius: number }
+  | { readonly type: 'sharpen'; readonly radius: number }
+  | { readonly type: 'quality'; readonly quality: number }
+  | { readonly type: 'format'; readonly format: MutationFormat }
+  | { readonly type: 'background'; readonly color: string }
+  | { readonly type: 'grayscale' };
+
+/**
+ * Operations which can be applied only once per mutation.
+ */
+const singleUseOperations: ReadonlyArray<MutationOperation['type']> = [
+  'quality',
+  'format',
+  'background',
+  'grayscale'
+];
+
+/**
+ * Immutable, chainable builder of Filejet mutations.
+ *
+ * Every method returns a new instance, so the partially built mutation can be safely shared.
+ *
+ * @example mutation().crop({ width: 200, height: 100 }).grayscale().quality(80)
+ */
+export class Mutation {
+  private readonly operations: readonly MutationOperation[];
+
+  constructor(operations: readonly MutationOperation[] = []) {
+    this.operations = operations;
+  }
+
+  /**
+   * Crops the rectangular area from the image.
+   */
+  crop(crop: MutationCrop): Mutation {
+    const { width, height, x = 0, y = 0 } = crop;
+    assertPositiveInteger('crop width', width);
+    assertPositiveInteger('crop height', height);
+    assertNonNegativeInteger('crop x', x);
+    assertNonNegativeInteger('crop y', y);
+    return this.with({ type: 'crop', crop: { width, height, x, y } });
+  }
+
+  /**
+   * Rotates the image clockwise.
+   */
+  rotate(angle: MutationRotation): Mutation {
+    if (![90, 180, 270].includes(angle)) {
+      throw new Error(`Invalid rotation angle "${angle}"! Expected 90, 180 or 270.`);
+    }
+    return this.with({ type: 'rotate', angle });
+  }
+
+  /**
+   * Mirrors the image in the specified direction.
+   */
+  flip(direction: MutationFlip): Mutation {
+    if (direction !== 'horizontal' && direction !== 'vertical') {
+      throw new Error(`Invalid flip direction "${direction}"!`);
+    }
+    return this.with({ type: 'flip', direction });
+  }
+
+  /**
+   * Blurs the image with the specified radius in pixels.
+   */
+  blur(radius: number): Mutation {
+    assertPositiveInteger('blur radius', radius);
+    return this.with({ type: 'blur', radius });
+  }
+
+  /**
+   * Sharpens the image with the specified radius in pixels.
+   */
+  sharpen(radius: number): Mutation {
+    assertPositiveInteger('sharpen radius', radius);
+    return this.with({ type: 'sharpen', radius });
+  }
+
+  /**
+   * Sets the output quality in the range of 1-100.
+   *
+   * Not applicable to lossless formats.
+   */
+  quality(quality: number): Mutation {
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new Error(`Invalid quality "${quality}"! Expected an integer between 1 and 100.`);
+    }
+    return this.with({ type: 'quality', quality });
+  }
+
+  /**
+   * Sets the output format of the image.
+   */
+  format(format: MutationFormat): Mutation {
+    if (!['jpeg', 'png', 'webp', 'avif', 'gif'].includes(format)) {
+      throw new Error(`Invalid format "${format}"!`);
+    }
+    return this.with({ type: 'format', format });
+  }
+
+  /**
+   * Sets the background color used for transparent or uncovered areas.
+   *
+   * @example 'transparent'
+   * @example 'ff0000'
+   */
+  background(color: string): Mutation {
+    if (!/^[a-z0-9]+$/i.test(color)) {
+      throw new Error(`Invalid background color "${color}"! Expected a color name or hex code.`);
+    }
+    return this.with({ type: 'background', color });
+  }
+
+  /**
+   * Converts the image to grayscale.
+   */
+  grayscale(): Mutation {
+    return this.with({ type: 'grayscale' });
+  }
+
+  /**
+   * Serializes the mutation into the Filejet mutation string.
+   */
+  toString(): string {
+    return this.operations.map(serialize).join(',');
+  }
+
+  private with(operation: MutationOperation): Mutation {
+    if (
+      singleUseOperations.includes(operation.type) &&
+      this.operations.some(({ type }) => type === operation.type)
+    ) {
+      throw new Error(`Mutation "${operation.type}" can be applied only once!`);
+    }
+
+    const operations = [...this.operations, operation];
+
+    const format = operations.find(op => op.type === 'format');
+    const hasQuality = operations.some(op => op.type === 'quality');
+    if (hasQuality && format?.type === 'format' && isLossless(format.format)) {
+      throw new Error(`Mutation "quality" cannot be combined with lossless "${format.format}"!`);
+    }
+
+    return new Mutation(operations);
+  }
+}
+
+/**
+ * Starts a new chainable mutation.
+ *
+ * Resulting mutation can be used anywhere the mutation string is accepted.
+ */
+export function mutation(): Mutation {
+  return new Mutation();
+}
+
+/**
+ * Names of all mutations supported by the Filejet.
+ */
+export const mutationNames: ReadonlySet<string> = new Set([
+  'auto',
+  'bg',
+  'blur',
+  'crop',
+  'fit',
+  'flip',
+  'flop',
+  'format',
+  'gravity',
+  'grayscale',
+  'quality',
+  'resize',
+  'rotate',
+  'sharpen'
+]);
+
+/**
+ * Converts the mutation (or mutation string) into the Filejet mutation string.
+ */
+export function mutationToString(mutation: MutationLike | undefined): string | undefined {
+  if (mutation == null) return;
+  return typeof mutation === 'string' ? mutation : mutation.toString();
+}
+
+function serialize(operation: MutationOperation): string {
+  switch (operation.type) {
+    case 'crop': {
+      const { width, height, x, y } = operation.crop;
+      return `crop_${width}x${height}+${x}+${y}`;
+    }
+    case 'rotate':
+      return `rotate_${operation.angle}`;
+    case 'flip':
+      return operation.direction === 'vertical' ? 'flip' : 'flop';
+    case 'blur':
+      return `blur_${operation.radius}`;
+    case 'sharpen':
+      return `sharpen_${operation.radius}`;
+    case 'quality':
+      return `quality_${operation.quality}`;
+    case 'format':
+      return `format_${operation.format}`;
+    case 'background':
+      return `bg_${operation.color}`;
+    case 'grayscale':
+      return 'grayscale';
+    default:
+      assertUnreachable(operation);
+  }
+}
+
+function isLossless(format: MutationFormat): boolean {
+  return format === 'png' || format === 'gif';
+}
+
+function assertPositiveInteger(name: string, value: number) {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name} "${value}"! Expected a positive integer.`);
+  }
+}
+
+function assertNonNegativeInteger(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${value}"! Expected a non-negative integer.`);
+  }
+}
@@ -0,0 +1,100 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  createFilejetManifest,
+  CreateFilejetManifestOptions,
+  FilejetImageDecoder
+} from './manifest';
+
+const usage = `Usage: filejet-manifest [options] [file IDs or URLs...]
+
+Options:
+  --config <path>      JSON file with the options (domain, sizes, dpiScale, routes, ...)
+  --domain <domain>    Filejet domain
+  --dir <path>         Directory scanned for images
+  --public-url <url>   Public URL of the directory
+  --decoder <path>     Module which default-exports the decoder of non-PNG images
+  --concurrency <n>    The maximum number of images processed at the same time
+  --out <path>         Output file (default: filejet-manifest.json)
+  --help               Show this help`;
+
+/**
+ * Runs the `filejet-manifest` CLI with the arguments (without the node and script paths).
+ */
+export async function runFilejetManifestCli(args: string[]): Promise<void> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string' },
+        domain: { type: 'string' },
+        dir: { type: 'string' },
+        'public-url': { type: 'string' },
+        decoder: { type: 'string' },
+        concurrency: { type: 'string' },
+        out: { type: 'string', default: 'filejet-manifest.json' },
+        help: { type: 'boolean' }
+      }
+    });
+
+    if (values.help) {
+      console.log(usage);
+      return;
+    }
+
+    const config: Partial<CreateFilejetManifestOptions> =
+      values.config != null ? JSON.parse(await readFile(values.config, 'utf8')) : {};
+
+    const domain = values.domain ?? config.domain;
+    if (domain == null) throw new Error('Missing --domain or domain in the config!');
+    if (config.sizes == null) throw new Error('Missing sizes in the config!');
+
+    const manifest = await createFilejetManifest({
+      ...config,
+      domain,
+      sizes: config.sizes,
+      directory: values.dir ?? config.directory,
+      publicUrl: values['public-url'] ?? config.publicUrl,
+      sources: [...(config.sources ?? []), ...positionals],
+      concurrency:
+        values.concurrency != null ? parseConcurrency(values.concurrency) : config.concurrency,
+      decode: values.decoder != null ? await importDecoder(values.decoder) : undefined
+    });
+
+    await writeFile(values.out, `${JSON.stringify(manifest, null, 2)}\n`);
+    console.log(`${Object.keys(manifest.images).length} images written into ${values.out}`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${usage}`);
+    process.exitCode = 1;
+  }
+}
+
+function parseConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency "${value}"! It must be a positive integer.`);
+  }
+  return concurrency;
+}
+
+/**
+ * TypeScript compiles `import()` into `require()` in the CommonJS build, which cannot load ES modules.
+ */
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<{ default?: unknown; decode?: unknown }>;
+
+async function importDecoder(path: string): Promise<FilejetImageDecoder> {
+  const module = await importModule(pathToFileURL(resolve(path)).href);
+  const decoder = module.default ?? module.decode;
+
+  if (typeof decoder !== 'function') {
+    throw new Error(`Decoder "${path}" does not export the default function!`);
+  }
+
+  return decoder as FilejetImageDecoder;
+}
@@ -0,0 +1,114 @@
+import { isPng } from './png';
+
+export interface ImageSize {
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Reads the dimensions of the PNG, JPEG, GIF or WebP image from its header.
+ *
+ * Returns `undefined` when the data is too short or the format is not supported.
+ * Dimensions of JPEG images are swapped by their EXIF orientation, so they match the displayed image.
+ */
+export function readImageSize(data: Uint8Array): ImageSize | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...data.subarray(offset, offset + length));
+
+  if (isPng(data)) {
+    if (data.length < 24) return;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (ascii(0, 4) === 'GIF8') {
+    if (data.length < 10) return;
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    return readWebpSize(data, view, ascii(12, 4));
+  }
+
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data, view);
+  }
+
+  return;
+}
+
+function readWebpSize(data: Uint8Array, view: DataView, chunk: string): ImageSize | undefined {
+  if (data.length < 32) return;
+
+  switch (chunk) {
+    case 'VP8 ':
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff
+      };
+    case 'VP8L': {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return {
+        width: (view.getUint32(24, true) & 0xffffff) + 1,
+        height: (view.getUint32(27, true) & 0xffffff) + 1
+      };
+    default:
+      return;
+  }
+}
+
+function readJpegSize(data: Uint8Array, view: DataView): ImageSize | undefined {
+  let orientation = 1;
+
+  for (let offset = 2; offset + 9 <= data.length; ) {
+    if (data[offset] !== 0xff) return;
+
+    const marker = data[offset + 1];
+    // Fill bytes before the marker.
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = view.getUint16(offset + 2);
+
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(data.subarray(offset + 4, offset + 2 + length)) ?? 1;
+    }
+
+    // Start of frame markers, except for the DHT, JPG and DAC markers.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = view.getUint16(offset + 5);
+      const width = view.getUint16(offset + 7);
+      // Orientations 5-8 rotate the image by 90 degrees.
+      return orientation >= 5 ? { width: height, height: width } : { width, height };
+    }
+
+    offset += 2 + length;
+  }
+
+  return;
+}
+
+function readExifOrientation(exif: Uint8Array): number | undefined {
+  if (exif.length < 14 || String.fromCharCode(...exif.subarray(0, 4)) !== 'Exif') return;
+
+  const tiff = new DataView(exif.buffer, exif.byteOffset + 6, exif.byteLength - 6);
+  const littleEndian = tiff.getUint16(0) === 0x4949;
+  const ifdOffset = tiff.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.byteLength) return;
+
+  const entries = tiff.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.byteLength) return;
+    if (tiff.getUint16(entry, littleEndian) === 0x0112) {
+      return tiff.getUint16(entry + 8, littleEndian);
+    }
+  }
+
+  return;
+}
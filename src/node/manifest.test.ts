@@ -0,0 +1,166 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runFilejetManifestCli } from './cli';
+import { readImageSize } from './imageSize';
+import { createFilejetManifest } from './manifest';
+
+/**
+ * Gray 8-bit PNG. Chunk checksums are not verified by the decoder, so they are left empty.
+ */
+function png(width: number, height: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+
+  const rows = Buffer.alloc((width + 1) * height, 128);
+  for (let y = 0; y < height; y++) rows[y * (width + 1)] = 0;
+
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * JPEG header with the EXIF orientation and the start of frame, without any image data.
+ */
+function jpeg(width: number, height: number, orientation: number): Buffer {
+  const exif = Buffer.from([
+    ...Buffer.from('Exif\0\0'),
+    ...[0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08],
+    ...[0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00],
+    ...[0x00, 0x00, 0x00, 0x00]
+  ]);
+  const app1 = Buffer.from([0xff, 0xe1, 0, 0, ...exif]);
+  app1.writeUInt16BE(exif.length + 2, 2);
+
+  const sof = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, ...Array(9).fill(0)]);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app1, sof]);
+}
+
+describe('readImageSize', () => {
+  it('reads the dimensions of the PNG image', () => {
+    expect(readImageSize(png(300, 150))).toEqual({ width: 300, height: 150 });
+  });
+
+  it('swaps the dimensions of the rotated JPEG image', () => {
+    expect(readImageSize(jpeg(4000, 3000, 1))).toEqual({ width: 4000, height: 3000 });
+    expect(readImageSize(jpeg(4000, 3000, 6))).toEqual({ width: 3000, height: 4000 });
+  });
+
+  it('returns undefined for unknown formats', () => {
+    expect(readImageSize(Buffer.from('not an image'))).toBeUndefined();
+  });
+});
+
+describe('createFilejetManifest', () => {
+  const sizes = { thumb: { width: 100, height: 100, fit: 'cover' as const } };
+
+  const fetch = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+
+    if (url.pathname === '/info') {
+      const ids = url.searchParams.get('ids')!.split(',');
+      return Response.json(
+        Object.fromEntries(ids.map(id => [id, { id, width: 1600, height: 900 }]))
+      );
+    }
+
+    if (url.host === 'cdn.filejet.io' || url.host === 'eu.cdn.myapp.com') {
+      return new Response(png(100, 50));
+    }
+
+    return new Response(jpeg(1200, 800, 1));
+  });
+
+  afterEach(() => {
+    fetch.mockClear();
+  });
+
+  it('fetches the dimensions of file IDs from the info endpoint', async () => {
+    const manifest = await createFilejetManifest({
+      domain: 'cdn.filejet.io',
+      sources: ['abc'],
+      sizes,
+      fetch
+    });
+
+    expect(manifest.images.abc).toMatchObject({ width: 1600, height: 900, aspectRatio: 16 / 9 });
+  });
+
+  it('reads the dimensions of URLs from the original image', async () => {
+    const manifest = await createFilejetManifest({
+      domain: 'cdn.filejet.io',
+      sources: ['https://myapp.com/photo.jpg', 'https://eu.cdn.myapp.com/tenants/acme/abc'],
+      routes: [{ host: 'eu.cdn.myapp.com', action: 'direct' }],
+      sizes,
+      fetch
+    });
+
+    expect(manifest.images['https://myapp.com/photo.jpg']).toMatchObject({
+      width: 1200,
+      height: 800
+    });
+    expect(manifest.images['https://eu.cdn.myapp.com/tenants/acme/abc']).toMatchObject({
+      width: 100,
+      height: 50
+    });
+    expect(fetch.mock.calls.map(([url]) => String(url))).not.toContainEqual(
+      expect.stringContaining('/info')
+    );
+  });
+
+  it('rejects the invalid concurrency', async () => {
+    await expect(
+      createFilejetManifest({ domain: 'cdn.filejet.io', sizes, concurrency: NaN })
+    ).rejects.toThrow('Invalid concurrency');
+  });
+});
+
+describe('runFilejetManifestCli', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'filejet-manifest-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.exitCode = undefined;
+    await rm(directory, { recursive: true });
+  });
+
+  it('fails with the invalid concurrency', async () => {
+    await writeFile(join(directory, 'config.json'), JSON.stringify({ sizes: {} }));
+    await runFilejetManifestCli([
+      '--config',
+      join(directory, 'config.json'),
+      '--domain',
+      'cdn.filejet.io',
+      '--concurrency',
+      'many'
+    ]);
+
+    expect(process.exitCode).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(
+      'Invalid --concurrency "many"! It must be a positive integer.'
+    );
+  });
+});
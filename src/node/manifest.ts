@@ -0,0 +1,342 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+import { rgbaToThumbHash } from 'thumbhash';
+import { filejetImg, FilejetImgProps, HtmlImgProps } from '../filejetImg';
+import { FilejetInfoClient, FilejetInfoClientProps } from '../info';
+import type { FilejetManifest, FilejetManifestEntry } from '../manifest';
+import { Mutation } from '../mutation';
+import { isUrl, routeFilejetSrc } from '../routing';
+import { ImageSize, readImageSize } from './imageSize';
+import { decodePng, isPng } from './png';
+
+export interface FilejetDecodedImage {
+  readonly width: number;
+  readonly height: number;
+  readonly rgba: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Decodes the local image file (e.g. by `sharp`) into RGBA pixels.
+ */
+export type FilejetImageDecoder = (
+  file: Uint8Array,
+  path: string
+) => FilejetDecodedImage | Promise<FilejetDecodedImage>;
+
+/**
+ * Size of the image for which the `src` and `srcSet` are precomputed.
+ */
+export type FilejetManifestSize = Pick<FilejetImgProps, 'width' | 'height' | 'fit'> &
+  Partial<
+    Pick<
+      FilejetImgProps,
+      'dpiScale' | 'breakpoints' | 'sizes' | 'focalPoint' | 'mutation' | 'backgroundColor'
+    >
+  >;
+
+export interface CreateFilejetManifestOptions
+  extends Pick<FilejetImgProps, 'routes' | 'allowedHosts' | 'signer'> {
+  /**
+   * Filejet domain.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly domain: string;
+
+  /**
+   * Sizes of the image by their name.
+   *
+   * @example { thumbnail: { width: 200, height: 200, fit: 'cover' }, hero: { width: 1200, fit: 'contain', breakpoints: [640, 1200] } }
+   */
+  readonly sizes: Record<string, FilejetManifestSize>;
+
+  /**
+   * Directory which is scanned for PNG, JPEG, WebP, GIF and AVIF images (including subdirectories).
+   */
+  readonly directory?: string;
+
+  /**
+   * Public URL of the `directory`, so the images can be fetched through the Filejet.
+   *
+   * @example 'https://myapp.com/images/'
+   */
+  readonly publicUrl?: string;
+
+  /**
+   * Filejet file IDs or URLs of the images.
+   *
+   * Their pixels are fetched as small PNG renditions from the Filejet.
+   * Dimensions of file IDs are fetched from the info endpoint, of URLs from the header of the original image.
+   */
+  readonly sources?: string[];
+
+  /**
+   * The DPI scale used by the sizes without their own `dpiScale`.
+   *
+   * @default [1, 2]
+   */
+  readonly dpiScale?: number[];
+
+  /**
+   * Decodes the local images. PNG images are decoded without it.
+   */
+  readonly decode?: FilejetImageDecoder;
+
+  /**
+   * Info client configuration used for the dimensions of the `sources`.
+   */
+  readonly info?: Omit<FilejetInfoClientProps, 'domain'>;
+
+  /**
+   * The maximum number of images processed at the same time.
+   *
+   * @default 4
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Custom `fetch` implementation.
+   *
+   * @default globalThis.fetch
+   */
+  readonly fetch?: typeof fetch;
+}
+
+const imageExtensions = /\.(png|jpe?g|webp|gif|avif)$/i;
+
+/**
+ * Computes the thumbhashes, aspect ratios and `src`/`srcSet` of the configured sizes of all images.
+ *
+ * @example const manifest = await createFilejetManifest({ domain, directory: 'public/images', publicUrl: 'https://myapp.com/images/', sizes });
+ */
+export async function createFilejetManifest(
+  options: CreateFilejetManifestOptions
+): Promise<FilejetManifest> {
+  const concurrency = options.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency}! It must be a positive integer.`);
+  }
+
+  const infoClient = new FilejetInfoClient({
+    domain: options.domain,
+    fetch: options.fetch,
+    ...options.info
+  });
+
+  const files = options.directory != null ? await findImages(options.directory) : [];
+  if (files.length > 0 && options.publicUrl == null) {
+    throw new Error('Missing publicUrl of the directory!');
+  }
+
+  const tasks = [
+    ...files.map(path => () => localEntry(path, options)),
+    ...(options.sources ?? []).map(src => () => remoteEntry(src, infoClient, options))
+  ];
+
+  const entries = await mapConcurrently(tasks, concurrency, task => task());
+  return { version: 1, domain: options.domain, images: Object.fromEntries(entries) };
+}
+
+async function findImages(directory: string): Promise<string[]> {
+  const paths = await readdir(directory, { recursive: true });
+
+  return paths
+    .filter(path => imageExtensions.test(path))
+    .map(path => path.split(sep).join('/'))
+    .sort();
+}
+
+async function localEntry(
+  path: string,
+  options: CreateFilejetManifestOptions
+): Promise<[string, FilejetManifestEntry]> {
+  const file = await readFile(join(options.directory!, path));
+
+  let image: FilejetDecodedImage;
+  if (isPng(file)) {
+    image = decodePng(file);
+  } else if (options.decode != null) {
+    image = await options.decode(file, path);
+  } else {
+    throw new Error(`Cannot decode "${path}" without the decode option!`);
+  }
+
+  const src = new URL(path.split('/').map(encodeURIComponent).join('/'), options.publicUrl).href;
+  return [path, manifestEntry(src, image.width, image.height, image, options)];
+}
+
+async function remoteEntry(
+  src: string,
+  infoClient: FilejetInfoClient,
+  options: CreateFilejetManifestOptions
+): Promise<[string, FilejetManifestEntry]> {
+  const route = routeFilejetSrc(src, { ...options, filejetDomain: options.domain });
+  if (route.type !== 'filejet' && route.type !== 'direct') {
+    throw new Error(`Image "${src}" is not served through the Filejet!`);
+  }
+
+  // Thumbhash is computed from at most 100x100 pixels.
+  const rendition = filejetImg({
+    src,
+    width: 100,
+    height: 100,
+    fit: 'contain',
+    dpiScale: [1],
+    backgroundColor: 'transparent',
+    mutation: new Mutation().format('png'),
+    filejetDomain: options.domain,
+    routes: options.routes,
+    allowedHosts: options.allowedHosts,
+    signer: options.signer
+  });
+
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const [response, size] = await Promise.all([
+    fetchFn(rendition.src, { headers: { Accept: 'image/png' } }),
+    remoteSize(src, infoClient, fetchFn)
+  ]);
+
+  if (!response.ok) throw new Error(`Image "${src}" failed with status ${response.status}!`);
+
+  const image = decodePng(new Uint8Array(await response.arrayBuffer()));
+  return [src, manifestEntry(src, size.width, size.height, image, options)];
+}
+
+/**
+ * Only Filejet files have the info, so the dimensions of URLs are read from the header of the original image.
+ */
+async function remoteSize(
+  src: string,
+  infoClient: FilejetInfoClient,
+  fetchFn: typeof fetch
+): Promise<ImageSize> {
+  if (!isUrl(src)) {
+    const info = await infoClient.get(src);
+    if (info == null) throw new Error(`Image "${src}" does not exist!`);
+    return info;
+  }
+
+  const response = await fetchFn(src);
+  if (!response.ok) throw new Error(`Image "${src}" failed with status ${response.status}!`);
+
+  const size = await readStreamedImageSize(response);
+  if (size == null) throw new Error(`Dimensions of "${src}" cannot be read!`);
+  return size;
+}
+
+/**
+ * Reads the response only until the dimensions are found, so the whole image is usually not downloaded.
+ */
+async function readStreamedImageSize(response: Response): Promise<ImageSize | undefined> {
+  if (response.body == null) return readImageSize(new Uint8Array(await response.arrayBuffer()));
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      chunks.push(value);
+      const size = readImageSize(Buffer.concat(chunks));
+      if (size != null) return size;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+function manifestEntry(
+  src: string,
+  width: number,
+  height: number,
+  image: FilejetDecodedImage,
+  options: CreateFilejetManifestOptions
+): FilejetManifestEntry {
+  const aspectRatio = width / height;
+  const thumbnail = downscale(image, 100);
+  const thumbhash = rgbaToThumbHash(thumbnail.width, thumbnail.height, thumbnail.rgba);
+
+  const variants = Object.entries(options.sizes).map(([name, size]): [string, HtmlImgProps] => [
+    name,
+    filejetImg({
+      dpiScale: options.dpiScale ?? [1, 2],
+      backgroundColor: 'transparent',
+      ...size,
+      src,
+      aspectRatio,
+      filejetDomain: options.domain,
+      routes: options.routes,
+      allowedHosts: options.allowedHosts,
+      signer: options.signer
+    })
+  ]);
+
+  return {
+    src,
+    width,
+    height,
+    aspectRatio,
+    thumbhash: Buffer.from(thumbhash).toString('base64'),
+    variants: Object.fromEntries(variants)
+  };
+}
+
+/**
+ * Averages the pixels into the image which fits within `max`x`max` pixels.
+ */
+function downscale(image: FilejetDecodedImage, max: number): FilejetDecodedImage {
+  const scale = Math.min(1, max / Math.max(image.width, image.height));
+  if (scale === 1) return image;
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const rgba = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+      const sum = [0, 0, 0, 0];
+
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let channel = 0; channel < 4; channel++)
+            sum[channel] += image.rgba[source + channel];
+        }
+      }
+
+      const count = (bottom - top) * (right - left);
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        rgba[target + channel] = Math.round(sum[channel] / count);
+      }
+    }
+  }
+
+  return { width, height, rgba };
+}
+
+async function mapConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  map: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,194 @@
+import { inflateSync } from 'node:zlib';
+import type { FilejetDecodedImage } from './manifest';
+
+const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Returns true when the data starts with the PNG signature.
+ */
+export function isPng(data: Uint8Array): boolean {
+  return signature.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * Decodes the non-interlaced PNG image into RGBA pixels.
+ *
+ * Supports all color types and bit depths, which is enough for thumbhashes without any native dependency.
+ */
+export function decodePng(data: Uint8Array): FilejetDecodedImage {
+  if (!isPng(data)) throw new Error('Invalid PNG image!');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let header: PngHeader | undefined;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const compressed: Uint8Array[] = [];
+
+  for (let offset = signature.length; offset + 8 <= data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') header = parseHeader(chunk);
+    else if (type === 'PLTE') palette = chunk;
+    else if (type === 'tRNS') transparency = chunk;
+    else if (type === 'IDAT') compressed.push(chunk);
+    else if (type === 'IEND') break;
+  }
+
+  if (header == null) throw new Error('Missing PNG header!');
+  if (header.interlace !== 0) throw new Error('Interlaced PNG images are not supported!');
+  if (header.colorType === 3 && palette == null) throw new Error('Missing PNG palette!');
+
+  const pixels = unfilter(inflateSync(Buffer.concat(compressed)), header);
+  return {
+    width: header.width,
+    height: header.height,
+    rgba: toRgba(pixels, header, palette, transparency)
+  };
+}
+
+interface PngHeader {
+  readonly width: number;
+  readonly height: number;
+  readonly bitDepth: number;
+  readonly colorType: number;
+  readonly interlace: number;
+  readonly channels: number;
+
+  /**
+   * Bytes of a single scanline without the filter byte.
+   */
+  readonly stride: number;
+}
+
+const channelsByColorType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function parseHeader(chunk: Uint8Array): PngHeader {
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  const width = view.getUint32(0);
+  const bitDepth = chunk[8];
+  const colorType = chunk[9];
+  const channels = channelsByColorType[colorType];
+
+  if (channels == null) throw new Error(`Invalid PNG color type ${colorType}!`);
+
+  return {
+    width,
+    height: view.getUint32(4),
+    bitDepth,
+    colorType,
+    interlace: chunk[12],
+    channels,
+    stride: Math.ceil((width * channels * bitDepth) / 8)
+  };
+}
+
+function unfilter(raw: Uint8Array, header: PngHeader): Uint8Array {
+  const { stride, height } = header;
+  const bytesPerPixel = Math.max(1, (header.channels * header.bitDepth) / 8);
+  const pixels = new Uint8Array(stride * height);
+  const empty = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = pixels.subarray(y * stride, (y + 1) * stride);
+    const prior = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : empty;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bytesPerPixel ? row[x - bytesPerPixel] : 0;
+      const b = prior[x];
+      const c = x >= bytesPerPixel ? prior[x - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 0:
+          row[x] = line[x];
+          break;
+        case 1:
+          row[x] = line[x] + a;
+          break;
+        case 2:
+          row[x] = line[x] + b;
+          break;
+        case 3:
+          row[x] = line[x] + ((a + b) >> 1);
+          break;
+        case 4:
+          row[x] = line[x] + paeth(a, b, c);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter ${filter}!`);
+      }
+    }
+  }
+
+  return pixels;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function toRgba(
+  pixels: Uint8Array,
+  header: PngHeader,
+  palette: Uint8Array | undefined,
+  transparency: Uint8Array | undefined
+): Uint8Array {
+  const { width, height, bitDepth, colorType, channels, stride } = header;
+  const rgba = new Uint8Array(width * height * 4);
+  const max = 2 ** bitDepth - 1;
+  const scale = (value: number) => Math.round((value * 255) / max);
+
+  // Transparent color of the grayscale and truecolor images.
+  const transparent =
+    transparency != null && (colorType === 0 || colorType === 2)
+      ? Array.from(
+          { length: transparency.length / 2 },
+          (_, i) => (transparency[2 * i] << 8) | transparency[2 * i + 1]
+        )
+      : undefined;
+
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * stride, (y + 1) * stride);
+
+    for (let x = 0; x < width; x++) {
+      const samples = Array.from({ length: channels }, (_, channel) =>
+        readSample(row, x * channels + channel, bitDepth)
+      );
+      const target = (y * width + x) * 4;
+
+      if (colorType === 3) {
+        const index = samples[0];
+        rgba.set(palette!.subarray(index * 3, index * 3 + 3), target);
+        rgba[target + 3] = transparency?.[index] ?? 255;
+        continue;
+      }
+
+      const isTransparent = transparent?.every((value, i) => value === samples[i]) ?? false;
+      const [r, g, b] = channels >= 3 ? samples : [samples[0], samples[0], samples[0]];
+      const alpha = colorType === 4 ? samples[1] : colorType === 6 ? samples[3] : max;
+
+      rgba[target] = scale(r);
+      rgba[target + 1] = scale(g);
+      rgba[target + 2] = scale(b);
+      rgba[target + 3] = isTransparent ? 0 : scale(alpha);
+    }
+  }
+
+  return rgba;
+}
+
+function readSample(row: Uint8Array, index: number, bitDepth: number): number {
+  if (bitDepth === 8) return row[index];
+  if (bitDepth === 16) return (row[2 * index] << 8) | row[2 * index + 1];
+
+  const bit = index * bitDepth;
+  return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { filejetImg } from './filejetImg';
+import { parseFilejetUrl } from './parseFilejetUrl';
+
+describe('parseFilejetUrl', () => {
+  it('parses the file ID and mutations', () => {
+    const descriptor = parseFilejetUrl(
+      'https://cdn.filejet.io/KRhBC0tycdeENyP1PQkgBA/resize_200x100min,fit_200x100,bg_transparent,grayscale,auto'
+    );
+
+    expect(descriptor).toMatchObject({
+      domain: 'cdn.filejet.io',
+      source: { type: 'file', id: 'KRhBC0tycdeENyP1PQkgBA' },
+      src: 'KRhBC0tycdeENyP1PQkgBA',
+      resize: { width: 200, height: 100, fit: 'cover' },
+      mutation: 'grayscale'
+    });
+  });
+
+  it('parses the file ID without mutations', () => {
+    expect(parseFilejetUrl('https://cdn.filejet.io/KRhBC0tycdeENyP1PQkgBA')).toMatchObject({
+      source: { type: 'file', id: 'KRhBC0tycdeENyP1PQkgBA' },
+      mutations: [],
+      resize: undefined,
+      mutation: undefined
+    });
+  });
+
+  it('parses the external image', () => {
+    const { src } = filejetImg({
+      src: 'https://myapp.com/images/photo.jpg',
+      width: 128,
+      height: undefined,
+      fit: 'contain',
+      dpiScale: [1],
+      backgroundColor: 'transparent',
+      filejetDomain: 'cdn.filejet.io'
+    });
+
+    expect(parseFilejetUrl(src, { filejetDomain: 'cdn.filejet.io' })).toMatchObject({
+      source: { type: 'external', url: 'https://myapp.com/images/photo.jpg' },
+      src: 'https://myapp.com/images/photo.jpg',
+      resize: { width: 128, height: undefined, fit: 'contain' },
+      mutation: undefined
+    });
+  });
+
+  it('parses the multi-segment path of the direct route', () => {
+    const routes = [{ host: 'eu.cdn.myapp.com', action: 'direct' as const }];
+    const url =
+      'https://eu.cdn.myapp.com/tenants/acme/KRhBC0tycdeENyP1PQkgBA/resize_64x64shrink,rotate_90,auto';
+    const descriptor = parseFilejetUrl(url, { filejetDomain: 'cdn.filejet.io', routes });
+
+    expect(descriptor).toMatchObject({
+      domain: 'eu.cdn.myapp.com',
+      source: { type: 'file', id: 'KRhBC0tycdeENyP1PQkgBA' },
+      src: 'https://eu.cdn.myapp.com/tenants/acme/KRhBC0tycdeENyP1PQkgBA',
+      resize: { width: 64, height: 64, fit: 'contain' },
+      mutation: 'rotate_90'
+    });
+
+    const { src } = filejetImg({
+      src: descriptor!.src,
+      width: 64,
+      height: 64,
+      fit: 'contain',
+      mutation: descriptor!.mutation,
+      dpiScale: [1],
+      backgroundColor: 'transparent',
+      filejetDomain: 'cdn.filejet.io',
+      routes
+    });
+    expect(src).toBe(url);
+  });
+
+  it('parses the multi-segment path of other Filejet domains', () => {
+    const descriptor = parseFilejetUrl(
+      'https://other.filejet.io/tenants/acme/KRhBC0tycdeENyP1PQkgBA/resize_32shrink/quality_80',
+      { filejetDomain: 'cdn.filejet.io', otherFilejetDomains: ['other.filejet.io'] }
+    );
+
+    expect(descriptor).toMatchObject({
+      source: { type: 'file', id: 'KRhBC0tycdeENyP1PQkgBA' },
+      src: 'https://other.filejet.io/tenants/acme/KRhBC0tycdeENyP1PQkgBA',
+      mutations: [
+        { name: 'resize', value: '32shrink' },
+        { name: 'quality', value: '80' }
+      ],
+      mutation: 'quality_80'
+    });
+  });
+
+  it('returns undefined for other domains', () => {
+    expect(
+      parseFilejetUrl('https://myapp.com/KRhBC0tycdeENyP1PQkgBA/auto', {
+        filejetDomain: 'cdn.filejet.io'
+      })
+    ).toBeUndefined();
+  });
+
+  it('returns undefined for values which are not URLs', () => {
+    expect(parseFilejetUrl('KRhBC0tycdeENyP1PQkgBA')).toBeUndefined();
+    expect(
+      parseFilejetUrl('/images/photo.jpg', { filejetDomain: 'cdn.filejet.io' })
+    ).toBeUndefined();
+  });
+
+  it('throws without the file ID', () => {
+    expect(() => parseFilejetUrl('https://cdn.filejet.io/')).toThrow('File ID is missing');
+  });
+});
@@ -0,0 +1,239 @@
+import type { ImgObjectFit } from './filejetImg';
+import { base64UrlDecode } from './helpers';
+import { mutationNames } from './mutation';
+import { FilejetRoute, matchesHost, routedFilejetDomains } from './routing';
+
+export interface ParseFilejetUrlOptions {
+  /**
+   * Filejet domain.
+   *
+   * When specified, only URLs with this domain (or any domain of the `routes`) are parsed.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly filejetDomain?: string;
+
+  /**
+   * @deprecated Use `routes` instead.
+   *
+   * List of other Filejet domains.
+   *
+   * @example ['other.filejet.io']
+   */
+  readonly otherFilejetDomains?: string[];
+
+  /**
+   * Routing table passed into `filejetImg`.
+   *
+   * Domains of the `filejet` routes and hosts of the `direct` routes are parsed as Filejet domains.
+   */
+  readonly routes?: FilejetRoute[];
+}
+
+export interface ParsedMutation {
+  /**
+   * The name of the mutation.
+   *
+   * @example 'resize'
+   */
+  readonly name: string;
+
+  /**
+   * The value of the mutation, if any.
+   *
+   * @example '128x128min'
+   */
+  readonly value: string | undefined;
+}
+
+/**
+ * Dimensions are in the pixels of the URL, so they already include the DPI scale.
+ */
+export interface ParsedResize {
+  readonly width: number | undefined;
+  readonly height: number | undefined;
+  readonly fit: ImgObjectFit;
+}
+
+export type FilejetUrlSource =
+  | {
+      readonly type: 'file';
+
+      /**
+       * Filejet file ID.
+       */
+      readonly id: string;
+    }
+  | {
+      readonly type: 'external';
+
+      /**
+       * Decoded URL of the external image.
+       */
+      readonly url: string;
+    };
+
+export interface FilejetUrlDescriptor {
+  /**
+   * Filejet domain of the URL.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly domain: string;
+
+  /**
+   * Either the Filejet file or external image.
+   */
+  readonly source: FilejetUrlSource;
+
+  /**
+   * Either the Filejet file ID or URL to the external image.
+   *
+   * File paths with multiple segments (e.g. of the `direct` routes) are kept as the full URL without the mutations,
+   * so they point to the same image.
+   *
+   * Can be passed directly into `filejetImg` or `Img` as `src`.
+   */
+  readonly src: string;
+
+  /**
+   * All mutations found in the URL, in order.
+   */
+  readonly mutations: ParsedMutation[];
+
+  /**
+   * Resize generated by `filejetImg`, if any.
+   */
+  readonly resize: ParsedResize | undefined;
+
+  /**
+   * Additional mutation without the resize and `auto` mutations generated by `filejetImg`.
+   *
+   * Can be passed directly into `filejetImg` or `Img` as `mutation`.
+   */
+  readonly mutation: string | undefined;
+}
+
+/**
+ * Parses the Filejet URL (e.g. generated by `filejetImg`) back into its parts.
+ *
+ * Returns `undefined` when the value is not a URL or it does not belong to any of the specified Filejet domains.
+ */
+export function parseFilejetUrl(
+  url: string,
+  options: ParseFilejetUrlOptions = {}
+): FilejetUrlDescriptor | undefined {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return;
+  }
+
+  if (options.filejetDomain != null) {
+    const domains = [options.filejetDomain, ...routedFilejetDomains(options)];
+    if (!domains.some(domain => matchesHost(parsedUrl, domain))) {
+      return;
+    }
+  }
+
+  const rawSegments = parsedUrl.pathname.split('/').filter(segment => segment !== '');
+  const segments = rawSegments.map(segment => decodeURIComponent(segment));
+
+  // Direct routes may point to multi-segment paths, so the mutations are parsed from the end
+  // and the file ID is the last segment before them.
+  let idIndex = segments.length - 1;
+  while (idIndex > 0 && isMutationSegment(segments[idIndex])) idIndex--;
+
+  const id = segments[idIndex];
+  const mutationSegments = segments.slice(idIndex + 1);
+
+  if (id == null) {
+    throw new Error(`Invalid Filejet URL "${url}"! File ID is missing.`);
+  }
+
+  const source: FilejetUrlSource = id.startsWith('@ext_')
+    ? { type: 'external', url: base64UrlDecode(id.slice('@ext_'.length)) }
+    : { type: 'file', id };
+
+  const mutations = mutationSegments.flatMap(parseMutations);
+  const { resize, rest } = extractResize(mutations);
+
+  const src =
+    source.type === 'external'
+      ? source.url
+      : idIndex > 0
+        ? `${parsedUrl.origin}/${rawSegments.slice(0, idIndex + 1).join('/')}`
+        : source.id;
+
+  return {
+    domain: parsedUrl.host,
+    source,
+    src,
+    mutations,
+    resize,
+    mutation: rest.length > 0 ? rest.map(stringifyMutation).join(',') : undefined
+  };
+}
+
+function isMutationSegment(segment: string): boolean {
+  const mutations = parseMutations(segment);
+  return mutations.length > 0 && mutations.every(m => mutationNames.has(m.name));
+}
+
+function parseMutations(value: string): ParsedMutation[] {
+  return value
+    .split(',')
+    .map(m => m.trim())
+    .filter(m => m !== '')
+    .map(m => {
+      const separatorIndex = m.indexOf('_');
+      if (separatorIndex === -1) return { name: m, value: undefined };
+      return { name: m.slice(0, separatorIndex), value: m.slice(separatorIndex + 1) };
+    });
+}
+
+function stringifyMutation(mutation: ParsedMutation): string {
+  return mutation.value == null ? mutation.name : `${mutation.name}_${mutation.value}`;
+}
+
+/**
+ * Extracts the resize mutations in the exact shape generated by `filejetImg`.
+ */
+function extractResize(mutations: ParsedMutation[]): {
+  resize: ParsedResize | undefined;
+  rest: ParsedMutation[];
+} {
+  const rest = mutations.filter((m, index) => m.name !== 'auto' || index !== mutations.length - 1);
+
+  const resizeMatch = /^(\d+)?(?:x(\d+))?(min|shrink)$/.exec(rest[0]?.value ?? '');
+  if (rest[0]?.name !== 'resize' || resizeMatch == null || resizeMatch[0] === resizeMatch[3]) {
+    return { resize: undefined, rest };
+  }
+
+  const [, width, height, flag] = resizeMatch;
+  const resize: ParsedResize = {
+    width: width != null ? Number(width) : undefined,
+    height: height != null ? Number(height) : undefined,
+    fit: flag === 'min' ? 'cover' : 'contain'
+  };
+
+  // Cover with both dimensions is generated as `resize_WxHmin,fit_WxH,bg_<color>`,
+  // or with the focal point as `resize_WxHmin,crop_WxH+X+Y` or `resize_WxHmin,gravity_<gravity>,fit_WxH,bg_<color>`.
+  if (resize.fit === 'cover' && resize.width != null && resize.height != null) {
+    if (rest[1]?.name === 'fit' && rest[2]?.name === 'bg') {
+      return { resize, rest: rest.slice(3) };
+    }
+    if (rest[1]?.name === 'gravity' && rest[2]?.name === 'fit' && rest[3]?.name === 'bg') {
+      return { resize, rest: rest.slice(4) };
+    }
+    if (
+      rest[1]?.name === 'crop' &&
+      rest[1].value?.startsWith(`${resize.width}x${resize.height}+`)
+    ) {
+      return { resize, rest: rest.slice(2) };
+    }
+  }
+
+  return { resize, rest: rest.slice(1) };
+}
@@ -0,0 +1,228 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { Mutation, MutationLike, mutationToString } from '../mutation';
+import { useFilejet } from './provider';
+
+export interface FilejetNetworkConditions {
+  /**
+   * Whether the user enabled the data saver (`Save-Data` header or `navigator.connection.saveData`).
+   */
+  readonly saveData: boolean;
+
+  /**
+   * Whether the user prefers the reduced data usage (`prefers-reduced-data` media query).
+   */
+  readonly prefersReducedData: boolean;
+
+  /**
+   * Effective connection type from the Network Information API.
+   */
+  readonly effectiveType: 'slow-2g' | '2g' | '3g' | '4g' | undefined;
+
+  /**
+   * Estimated bandwidth in megabits per second from the Network Information API.
+   */
+  readonly downlink: number | undefined;
+}
+
+export interface FilejetAdaptiveDecision {
+  /**
+   * DPI scales offered for the image.
+   */
+  readonly dpiScale: number[];
+
+  /**
+   * Mutation (e.g. quality or format) applied before the image's own mutation.
+   */
+  readonly mutation?: MutationLike;
+}
+
+export type FilejetAdaptivePolicy = (
+  conditions: FilejetNetworkConditions,
+  image: { readonly dpiScale: number[] }
+) => FilejetAdaptiveDecision;
+
+export interface FilejetAdaptiveOptions {
+  /**
+   * Decides the DPI scales and mutation of each image from the network conditions.
+   *
+   * @default defaultAdaptivePolicy
+   */
+  readonly policy?: FilejetAdaptivePolicy;
+
+  /**
+   * Conditions used on the server and during the hydration, e.g. from the `Save-Data` request header.
+   *
+   * Conditions are measured on the client once the hydration is finished.
+   *
+   * @example { saveData: request.headers['save-data'] === 'on' }
+   */
+  readonly initialConditions?: Partial<FilejetNetworkConditions>;
+}
+
+/**
+ * Keeps only the DPI scales up to the `max`, or the lowest one when all of them are higher.
+ *
+ * @example capDpiScale([1, 1.5, 2], 1.5) // [1, 1.5]
+ */
+export function capDpiScale(dpiScale: number[], max: number): number[] {
+  const capped = dpiScale.filter(scale => scale <= max);
+  return capped.length > 0 ? capped : [Math.min(...dpiScale)];
+}
+
+/**
+ * Serves 1x images with lower quality to data savers and slow (2G) connections,
+ * and caps the DPI scale at 1.5 on 3G connections.
+ */
+export const defaultAdaptivePolicy: FilejetAdaptivePolicy = (conditions, { dpiScale }) => {
+  const isSlow = conditions.effectiveType === 'slow-2g' || conditions.effectiveType === '2g';
+
+  if (conditions.saveData || conditions.prefersReducedData || isSlow) {
+    return { dpiScale: capDpiScale(dpiScale, 1), mutation: new Mutation().quality(50) };
+  }
+
+  if (conditions.effectiveType === '3g') {
+    return { dpiScale: capDpiScale(dpiScale, 1.5) };
+  }
+
+  return { dpiScale };
+};
+
+interface NetworkInformation extends EventTarget {
+  readonly saveData?: boolean;
+  readonly effectiveType?: FilejetNetworkConditions['effectiveType'];
+  readonly downlink?: number;
+}
+
+const reducedDataQuery = '(prefers-reduced-data: reduce)';
+
+/**
+ * Tracks the network conditions of the client and notifies the rendered images about their changes.
+ */
+export class FilejetAdaptive {
+  readonly policy: FilejetAdaptivePolicy;
+  private readonly initialConditions: FilejetNetworkConditions;
+  private conditions: FilejetNetworkConditions | undefined;
+  private readonly listeners = new Set<() => void>();
+  private cleanup: (() => void) | undefined;
+
+  constructor(options: FilejetAdaptiveOptions) {
+    this.policy = options.policy ?? defaultAdaptivePolicy;
+    this.initialConditions = {
+      saveData: false,
+      prefersReducedData: false,
+      effectiveType: undefined,
+      downlink: undefined,
+      ...options.initialConditions
+    };
+  }
+
+  readonly subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.startListening();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stopListening();
+    };
+  };
+
+  /**
+   * Returns the measured conditions on the client and the initial conditions on the server.
+   */
+  readonly getConditions = (): FilejetNetworkConditions => {
+    if (typeof window === 'undefined') return this.initialConditions;
+
+    this.conditions ??= this.measure();
+    return this.conditions;
+  };
+
+  readonly getInitialConditions = (): FilejetNetworkConditions => {
+    return this.initialConditions;
+  };
+
+  private startListening() {
+    if (typeof window === 'undefined') return;
+
+    const connection = getConnection();
+    const mediaQuery = window.matchMedia?.(reducedDataQuery);
+
+    const update = () => {
+      const conditions = this.measure();
+      if (this.conditions != null && isSameConditions(conditions, this.conditions)) return;
+
+      this.conditions = conditions;
+      this.listeners.forEach(listener => listener());
+    };
+
+    connection?.addEventListener('change', update);
+    mediaQuery?.addEventListener?.('change', update);
+    this.cleanup = () => {
+      connection?.removeEventListener('change', update);
+      mediaQuery?.removeEventListener?.('change', update);
+    };
+
+    // Conditions could change while nothing was subscribed.
+    update();
+  }
+
+  private stopListening() {
+    this.cleanup?.();
+    this.cleanup = undefined;
+  }
+
+  /**
+   * Signals which are not supported by the browser keep their initial values.
+   */
+  private measure(): FilejetNetworkConditions {
+    const connection = getConnection();
+    const mediaQuery = window.matchMedia?.(reducedDataQuery);
+
+    return {
+      saveData: connection?.saveData ?? this.initialConditions.saveData,
+      prefersReducedData: mediaQuery?.matches ?? this.initialConditions.prefersReducedData,
+      effectiveType: connection?.effectiveType ?? this.initialConditions.effectiveType,
+      downlink: connection?.downlink ?? this.initialConditions.downlink
+    };
+  }
+}
+
+const noAdaptiveSubscribe = () => () => {};
+const noAdaptiveConditions = () => undefined;
+
+/**
+ * Returns the DPI scales and the additional mutation of the image decided by the adaptive policy.
+ *
+ * The server and the hydration use the initial conditions, so the markup matches.
+ */
+export function useAdaptiveImg(dpiScale: number[]): {
+  dpiScale: number[];
+  mutation: string | undefined;
+} {
+  const { adaptive } = useFilejet();
+
+  const conditions = useSyncExternalStore(
+    adaptive?.subscribe ?? noAdaptiveSubscribe,
+    adaptive?.getConditions ?? noAdaptiveConditions,
+    adaptive?.getInitialConditions ?? noAdaptiveConditions
+  );
+
+  return useMemo(() => {
+    if (adaptive == null || conditions == null) return { dpiScale, mutation: undefined };
+
+    const decision = adaptive.policy(conditions, { dpiScale });
+    return { dpiScale: decision.dpiScale, mutation: mutationToString(decision.mutation) };
+  }, [adaptive, conditions, dpiScale.join(',')]);
+}
+
+function getConnection(): NetworkInformation | undefined {
+  return (navigator as Navigator & { connection?: NetworkInformation }).connection;
+}
+
+function isSameConditions(a: FilejetNetworkConditions, b: FilejetNetworkConditions): boolean {
+  return (
+    a.saveData === b.saveData &&
+    a.prefersReducedData === b.prefersReducedData &&
+    a.effectiveType === b.effectiveType &&
+    a.downlink === b.downlink
+  );
+}
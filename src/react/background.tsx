@@ -0,0 +1,251 @@
+import React, { HTMLAttributes, memo, useEffect, useMemo, useRef, useState } from 'react';
+import { filejetBackgroundImage } from '../backgroundImage';
+import {
+  FilejetUrlSigner,
+  ImgFocalPoint,
+  ImgObjectFit,
+  combineMutations,
+  focalPointToObjectPosition
+} from '../filejetImg';
+import { MutationLike, mutationToString } from '../mutation';
+import { routeFilejetSrc } from '../routing';
+import { thumbhashAverageColor } from '../thumbhash';
+import { useAdaptiveImg } from './adaptive';
+import { useIsHydrating } from './hydration';
+import type { ImgPriority } from './img';
+import { useFilejet } from './provider';
+import { useParsedThumbhash } from './thumbhash';
+
+export interface BackgroundImgProps extends HTMLAttributes<HTMLDivElement> {
+  /**
+   * Either the Filejet file ID or URL to the external image.
+   */
+  readonly src: string;
+
+  /**
+   * Specifies how to resize the image to fit the element.
+   *
+   * @default 'cover'
+   */
+  readonly fit?: ImgObjectFit;
+
+  /**
+   * The point of the image which should remain visible when the image is cropped by `cover` fit.
+   *
+   * @default 'center'
+   */
+  readonly focalPoint?: ImgFocalPoint;
+
+  /**
+   * Additional mutation to apply to the image.
+   */
+  readonly mutation?: MutationLike;
+
+  /**
+   * Thumbhash rendered as the blurred background while the image is being fetched.
+   */
+  readonly thumbhash?: string;
+
+  /**
+   * Images with `high` priority are fetched immediately, others once they are close to the viewport.
+   *
+   * @default 'auto'
+   */
+  readonly priority?: ImgPriority;
+
+  /**
+   * Signs the generated URLs.
+   *
+   * Defaults to `signer` from the Filejet config.
+   */
+  readonly signer?: FilejetUrlSigner;
+}
+
+const lazyRootMargin = '200px';
+
+/**
+ * Element with the image from/through the Filejet as its background.
+ *
+ * The image is sized to the element, so it is fetched once the element is measured on the client.
+ * Children are rendered on top of the image.
+ */
+export const BackgroundImg = memo((props: BackgroundImgProps) => {
+  const { config, thumbhashDecoder } = useFilejet();
+  const isHydrating = useIsHydrating();
+  const thumbhash = useParsedThumbhash(props.thumbhash);
+  const fit = props.fit ?? 'cover';
+  const adaptive = useAdaptiveImg(config.Img.dpiScale);
+
+  const elementRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | undefined>(undefined);
+  const [isVisible, setIsVisible] = useState(props.priority === 'high');
+  const [loadedImage, setLoadedImage] = useState<string | undefined>(undefined);
+
+  const [decodedThumbhash, setDecodedThumbhash] = useState(() => {
+    // Server has no cache, so the cached thumbhash must not be rendered before the hydration.
+    if (isHydrating || thumbhash == null) return;
+    const src = config.ThumbhashImg.cache.get(thumbhash.id);
+    return src != null ? { id: thumbhash.id, src } : undefined;
+  });
+  const placeholder = decodedThumbhash?.id === thumbhash?.id ? decodedThumbhash?.src : undefined;
+
+  const averageColor = useMemo(() => {
+    return thumbhash != null ? thumbhashAverageColor(thumbhash) : undefined;
+  }, [thumbhash]);
+
+  // Focal point is usually an inline object, so it is memoized by its serialized form.
+  const focalPoint = JSON.stringify(props.focalPoint ?? null);
+
+  // Mutation builder is immutable, so it is safe to memoize by its serialized form.
+  const mutation = combineMutations(adaptive.mutation, mutationToString(props.mutation));
+
+  const backgroundImage = useMemo(() => {
+    if (size == null) return;
+
+    const routing = {
+      filejetDomain: config.domain,
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl
+    };
+
+    // Image with the host outside of the `allowedHosts` keeps the placeholder.
+    if (routeFilejetSrc(props.src, routing).type === 'rejected') return;
+
+    return filejetBackgroundImage({
+      ...routing,
+      src: props.src,
+      width: size.width,
+      height: size.height,
+      dpiScale: adaptive.dpiScale,
+      fit,
+      focalPoint: props.focalPoint,
+      backgroundColor: config.Img.backgroundColor ?? 'transparent',
+      mutation,
+      signer: props.signer ?? config.signer
+    });
+  }, [
+    props.src,
+    size,
+    fit,
+    focalPoint,
+    mutation,
+    props.signer,
+    adaptive.dpiScale.join(','),
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl,
+    config.signer,
+    config.Img.backgroundColor
+  ]);
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (element == null) return;
+
+    const measure = () => {
+      const width = element.clientWidth;
+      const height = element.clientHeight;
+      if (width === 0 || height === 0) return;
+
+      setSize(size => {
+        if (size == null) return { width, height };
+
+        const widthChanged = width > 1.5 * size.width || width < 0.75 * size.width;
+        const heightChanged = height > 1.5 * size.height || height < 0.75 * size.height;
+        return widthChanged || heightChanged ? { width, height } : size;
+      });
+    };
+
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (isVisible || elementRef.current == null) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (!entries.some(entry => entry.isIntersecting)) return;
+        setIsVisible(true);
+        observer.disconnect();
+      },
+      { rootMargin: lazyRootMargin }
+    );
+    observer.observe(elementRef.current);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    // Loaded image cancels the decoding, as the placeholder would not be visible.
+    if (thumbhash == null || placeholder != null || loadedImage != null) return;
+
+    let cancelDecode: (() => void) | undefined;
+    const frame = requestAnimationFrame(() => {
+      cancelDecode = thumbhashDecoder.decode(thumbhash, props.priority ?? 'auto', src => {
+        setDecodedThumbhash({ id: thumbhash.id, src });
+      });
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      cancelDecode?.();
+    };
+  }, [thumbhash, loadedImage != null]);
+
+  // The image is fetched by a detached image first, so the placeholder is swapped only once it is loaded.
+  // Browser picks the same candidate from `srcset` and `image-set()`, so it is served from the cache.
+  useEffect(() => {
+    if (backgroundImage == null || !isVisible) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (cancelled) return;
+      const { imageSet, fallback } = backgroundImage;
+      setLoadedImage(CSS.supports('background-image', imageSet) ? imageSet : fallback);
+    };
+    if (backgroundImage.srcSet != null) image.srcset = backgroundImage.srcSet;
+    image.src = backgroundImage.src;
+
+    return () => {
+      cancelled = true;
+      image.onload = null;
+    };
+  }, [backgroundImage, isVisible]);
+
+  const htmlProps = useMemo(() => {
+    const {
+      src: _1,
+      fit: _2,
+      focalPoint: _3,
+      mutation: _4,
+      thumbhash: _5,
+      priority: _6,
+      signer: _7,
+      ...htmlProps
+    } = props;
+    return htmlProps;
+  }, [props]);
+
+  return (
+    <div
+      {...htmlProps}
+      style={{
+        backgroundColor: averageColor,
+        backgroundImage: loadedImage ?? (placeholder != null ? `url("${placeholder}")` : undefined),
+        backgroundSize: fit,
+        backgroundPosition: focalPointToObjectPosition(props.focalPoint),
+        backgroundRepeat: 'no-repeat',
+        ...props.style
+      }}
+      ref={elementRef}
+    />
+  );
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { LruCache } from './cache';
+
+describe('LruCache', () => {
+  it('does not evict the key which was set again after the rotation', () => {
+    const evicted: string[] = [];
+    const cache = new LruCache({ maxSize: 2, onEviction: key => evicted.push(key) });
+
+    cache.set('a', '1');
+    cache.set('b', '2');
+    // Both keys are rotated into the old generation, so `a` is set again.
+    cache.set('a', '3');
+    cache.set('c', '4');
+
+    expect(evicted).toEqual(['b']);
+    expect(cache.get('a')).toBe('3');
+    expect(cache.stats()).toMatchObject({ size: 2, bytes: 2 * ('a3'.length + 'c4'.length) });
+  });
+
+  it('evicts the oldest keys over the maximum bytes', () => {
+    const evicted: string[] = [];
+    const cache = new LruCache({ maxSize: 10, maxBytes: 8, onEviction: key => evicted.push(key) });
+
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.set('c', '3');
+
+    expect(evicted).toEqual(['a']);
+    expect(cache.stats()).toMatchObject({ size: 2, bytes: 8 });
+  });
+
+  it('does not store the expired value', () => {
+    const cache = new LruCache({ maxSize: 10 });
+
+    cache.set('a', '1');
+    cache.set('a', '2', Date.now() - 1);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.stats()).toMatchObject({ size: 0, bytes: 0 });
+  });
+});
@@ -6,18 +6,65 @@ export interface Cache<TKey, TValue> {
   set(key: TKey, value: TValue): void;
 }
 
+export interface CacheStats {
+  /**
+   * The number of `get` calls which returned the cached value.
+   */
+  readonly hits: number;
+
+  /**
+   * The number of `get` calls which did not find the value.
+   */
+  readonly misses: number;
+
+  /**
+   * The number of items in the cache.
+   */
+  readonly size: number;
+
+  /**
+   * The approximate size of all items in bytes.
+   */
+  readonly bytes: number;
+}
+
 export interface LruCacheProps {
   /**
    * The maximum number of items in the cache.
    */
   readonly maxSize: number;
+
+  /**
+   * The maximum size of all items in bytes.
+   *
+   * Keys and values are measured as UTF-16 strings.
+   */
+  readonly maxBytes?: number;
+
+  /**
+   * Time to live of each item in milliseconds.
+   */
+  readonly ttl?: number;
+
+  /**
+   * Called when the item is evicted from the cache.
+   */
+  readonly onEviction?: (key: string) => void;
 }
 
-export class LruCache {
+export class LruCache implements Cache<string, string> {
   private readonly cache: QuickLRU<string, string>;
+  private readonly sizes = new Map<string, number>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
 
-  constructor(props: LruCacheProps) {
-    this.cache = new QuickLRU({ maxSize: props.maxSize });
+  constructor(private readonly props: LruCacheProps) {
+    this.cache = new QuickLRU({
+      maxSize: props.maxSize,
+      maxAge: props.ttl,
+      onEviction: key => this.evicted(key)
+    });
   }
 
   has(key: string): boolean {
@@ -25,10 +72,278 @@ export class LruCache {
   }
 
   get(key: string): string | undefined {
-    return this.cache.get(key);
+    const value = this.cache.get(key);
+    if (value == null) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  /**
+   * Stores the value.
+   *
+   * Value expires at `expiresAt` (timestamp in milliseconds) or after the `ttl`.
+   */
+  set(key: string, value: string, expiresAt?: number): void {
+    const maxAge = expiresAt != null ? expiresAt - Date.now() : this.props.ttl;
+
+    // Stale copy of the key might be left in the old generation of the LRU
+    // and it would be reported as evicted after the next rotation.
+    this.forget(key);
+    this.cache.delete(key);
+    if (maxAge != null && maxAge <= 0) return;
+
+    this.cache.set(key, value, { maxAge });
+
+    const size = 2 * (key.length + value.length);
+    this.sizes.set(key, size);
+    this.bytes += size;
+
+    if (this.props.maxBytes == null) return;
+
+    for (const [oldestKey] of this.cache.entriesAscending()) {
+      if (this.bytes <= this.props.maxBytes) break;
+      this.cache.delete(oldestKey);
+      this.evicted(oldestKey);
+    }
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.cache.size, bytes: this.bytes };
+  }
+
+  private evicted(key: string) {
+    this.forget(key);
+    this.props.onEviction?.(key);
+  }
+
+  private forget(key: string) {
+    this.bytes -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+  }
+}
+
+export interface StorageCacheProps extends LruCacheProps {
+  /**
+   * Web storage to persist the items into.
+   *
+   * Items are kept in memory only when the storage is not available (e.g. on the server).
+   *
+   * @example globalThis.sessionStorage
+   */
+  readonly storage: Storage | undefined;
+
+  /**
+   * Prefix of the storage keys.
+   *
+   * @default 'filejet:'
+   */
+  readonly prefix?: string;
+}
+
+/**
+ * LRU cache persisted into the `sessionStorage` or `localStorage`.
+ *
+ * Persisted items are loaded into memory when the cache is created.
+ */
+export class StorageCache implements Cache<string, string> {
+  private readonly memory: LruCache;
+  private readonly prefix: string;
+
+  constructor(private readonly props: StorageCacheProps) {
+    this.prefix = props.prefix ?? 'filejet:';
+    this.memory = new LruCache({
+      ...props,
+      onEviction: key => {
+        this.tryStorage(storage => storage.removeItem(this.prefix + key));
+        props.onEviction?.(key);
+      }
+    });
+
+    this.hydrate();
+  }
+
+  has(key: string): boolean {
+    return this.memory.has(key);
+  }
+
+  get(key: string): string | undefined {
+    return this.memory.get(key);
   }
 
   set(key: string, value: string): void {
-    this.cache.set(key, value);
+    const expiresAt = this.props.ttl != null ? Date.now() + this.props.ttl : undefined;
+    this.memory.set(key, value, expiresAt);
+
+    const entry: PersistedEntry = { value, expiresAt };
+    // Quota might be exceeded – the item is kept in memory only.
+    this.tryStorage(storage => storage.setItem(this.prefix + key, JSON.stringify(entry)));
+  }
+
+  stats(): CacheStats {
+    return this.memory.stats();
+  }
+
+  private hydrate() {
+    this.tryStorage(storage => {
+      const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index)).filter(
+        (key): key is string => key?.startsWith(this.prefix) ?? false
+      );
+
+      for (const storageKey of keys) {
+        const entry = parseEntry(storage.getItem(storageKey));
+        if (entry == null || isExpired(entry)) {
+          storage.removeItem(storageKey);
+        } else {
+          this.memory.set(storageKey.slice(this.prefix.length), entry.value, entry.expiresAt);
+        }
+      }
+    });
+  }
+
+  private tryStorage(fn: (storage: Storage) => void) {
+    if (this.props.storage == null) return;
+    try {
+      fn(this.props.storage);
+    } catch {
+      // Storage might be disabled or full.
+    }
+  }
+}
+
+export interface IndexedDbCacheProps extends LruCacheProps {
+  /**
+   * Name of the IndexedDB database.
+   *
+   * @default 'filejet-cache'
+   */
+  readonly databaseName?: string;
+}
+
+/**
+ * LRU cache persisted into the IndexedDB.
+ *
+ * Items are served synchronously from memory,
+ * while the persisted items are loaded asynchronously in the background.
+ */
+export class IndexedDbCache implements Cache<string, string> {
+  /**
+   * Resolved when the persisted items are loaded into memory.
+   */
+  readonly ready: Promise<void>;
+
+  private readonly memory: LruCache;
+  private readonly database: Promise<IDBDatabase | undefined>;
+
+  constructor(private readonly props: IndexedDbCacheProps) {
+    this.memory = new LruCache({
+      ...props,
+      onEviction: key => {
+        this.write(store => store.delete(key));
+        props.onEviction?.(key);
+      }
+    });
+
+    this.database = openDatabase(props.databaseName ?? 'filejet-cache');
+    this.ready = this.hydrate().catch(() => {
+      // Persistence is best-effort, the cache works in memory.
+    });
+  }
+
+  has(key: string): boolean {
+    return this.memory.has(key);
   }
+
+  get(key: string): string | undefined {
+    return this.memory.get(key);
+  }
+
+  set(key: string, value: string): void {
+    const expiresAt = this.props.ttl != null ? Date.now() + this.props.ttl : undefined;
+    this.memory.set(key, value, expiresAt);
+
+    const entry: PersistedEntry = { value, expiresAt };
+    this.write(store => store.put(entry, key));
+  }
+
+  stats(): CacheStats {
+    return this.memory.stats();
+  }
+
+  private async hydrate() {
+    const database = await this.database;
+    if (database == null) return;
+
+    const store = database.transaction(storeName, 'readonly').objectStore(storeName);
+    const [keys, entries] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+
+    entries.forEach((entry: PersistedEntry, index) => {
+      const key = String(keys[index]);
+
+      if (isExpired(entry)) {
+        this.write(store => store.delete(key));
+        return;
+      }
+
+      // Items set before the hydration are newer.
+      if (!this.memory.has(key)) this.memory.set(key, entry.value, entry.expiresAt);
+    });
+  }
+
+  private write(fn: (store: IDBObjectStore) => void) {
+    this.database
+      .then(database => {
+        if (database == null) return;
+        fn(database.transaction(storeName, 'readwrite').objectStore(storeName));
+      })
+      .catch(() => {
+        // Persistence is best-effort, the cache works in memory.
+      });
+  }
+}
+
+interface PersistedEntry {
+  readonly value: string;
+  readonly expiresAt: number | undefined;
+}
+
+const storeName = 'entries';
+
+function parseEntry(json: string | null): PersistedEntry | undefined {
+  if (json == null) return;
+  try {
+    const entry = JSON.parse(json);
+    return typeof entry?.value === 'string' ? entry : undefined;
+  } catch {
+    return;
+  }
+}
+
+function isExpired(entry: PersistedEntry): boolean {
+  return entry.expiresAt != null && entry.expiresAt <= Date.now();
+}
+
+async function openDatabase(name: string): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') return;
+
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+
+  try {
+    return await requestToPromise(request);
+  } catch {
+    return;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 }
@@ -0,0 +1,105 @@
+import { rgbaToThumbHash, thumbHashToDataURL } from 'thumbhash';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseThumbhash } from '../thumbhash';
+import { LruCache } from './cache';
+import { ThumbhashDecoder } from './decoder';
+import { decoderWorkerSource } from './decoderWorker';
+
+const thumbhash = parseThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJUI')!;
+
+/**
+ * Worker which stays busy until the test resolves its message.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  readonly messages: unknown[] = [];
+  terminated = false;
+  onmessage?: (event: { data: { src?: string } }) => void;
+  onerror?: () => void;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('ThumbhashDecoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it.each([
+    ['opaque landscape', 40, 30, false],
+    ['opaque portrait', 30, 40, false],
+    ['transparent landscape', 40, 30, true],
+    ['transparent portrait', 30, 40, true]
+  ])(
+    'decodes the %s thumbhash in the worker source the same as the thumbhash package',
+    async (_, width, height, hasAlpha) => {
+      const rgba = new Uint8Array(width * height * 4).map((_, i) =>
+        i % 4 === 3 && !hasAlpha ? 255 : (i * 37) % 256
+      );
+      const hash = rgbaToThumbHash(width, height, rgba);
+      const self = {
+        onmessage: undefined as ((event: unknown) => Promise<void>) | undefined,
+        postMessage: vi.fn()
+      };
+      new Function('self', decoderWorkerSource)(self);
+
+      await self.onmessage!({ data: { id: 'id', hash } });
+
+      expect(self.postMessage).toHaveBeenCalledWith({ id: 'id', src: thumbHashToDataURL(hash) });
+    }
+  );
+
+  it('decodes the thumbhash on the main thread without workers', () => {
+    const cache = new LruCache({ maxSize: 10 });
+    const decoder = new ThumbhashDecoder({ cache, workers: 0 });
+    const onDecode = vi.fn();
+
+    decoder.decode(thumbhash, 'auto', onDecode);
+
+    expect(onDecode).toHaveBeenCalledWith(thumbHashToDataURL(thumbhash.data));
+    expect(cache.get(thumbhash.id)).toBe(thumbHashToDataURL(thumbhash.data));
+  });
+
+  it('decodes the pending thumbhashes on the main thread when the workers fail', () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const decoder = new ThumbhashDecoder({ cache: new LruCache({ maxSize: 10 }), workers: 1 });
+    const onDecode = vi.fn();
+
+    decoder.decode(thumbhash, 'auto', onDecode);
+    expect(onDecode).not.toHaveBeenCalled();
+
+    FakeWorker.instances[0].onerror!();
+
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(onDecode).toHaveBeenCalledWith(thumbHashToDataURL(thumbhash.data));
+  });
+
+  it('terminates the workers and drops the pending requests', () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL');
+    const decoder = new ThumbhashDecoder({ cache: new LruCache({ maxSize: 10 }), workers: 1 });
+    const onDecode = vi.fn();
+
+    decoder.decode(thumbhash, 'auto', onDecode);
+    decoder.terminate();
+    FakeWorker.instances[0].onmessage!({ data: { src: 'data:image/png;base64,' } });
+
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(revokeObjectURL).toHaveBeenCalled();
+    expect(onDecode).not.toHaveBeenCalled();
+
+    revokeObjectURL.mockRestore();
+  });
+});
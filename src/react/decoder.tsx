@@ -0,0 +1,220 @@
+import { thumbHashToDataURL } from 'thumbhash';
+import type { ParsedThumbhash } from '../thumbhash';
+import type { Cache } from './cache';
+import { decoderWorkerSource } from './decoderWorker';
+import type { ImgPriority } from './img';
+
+export interface ThumbhashDecoderOptions {
+  /**
+   * Cache of the decoded thumbhashes shared by all workers.
+   */
+  readonly cache: Cache<string, string>;
+
+  /**
+   * The maximum number of Web Workers. `0` decodes thumbhashes on the main thread.
+   *
+   * @default One less than the number of CPU cores, at most 4.
+   */
+  readonly workers?: number;
+}
+
+interface DecodeRequest {
+  readonly thumbhash: ParsedThumbhash;
+  readonly listeners: Set<(src: string) => void>;
+  rank: number;
+  isRunning: boolean;
+}
+
+interface PoolWorker {
+  readonly worker: Worker;
+  request: DecodeRequest | undefined;
+}
+
+const priorityRanks: Record<ImgPriority, number> = { high: 2, auto: 1, low: 0 };
+
+/**
+ * Decodes thumbhashes into data URLs in the pool of Web Workers, so long feeds do not block the main thread.
+ *
+ * Requests are decoded by their priority and the same thumbhash is decoded only once.
+ * Thumbhashes are decoded on the main thread when the workers are not available (e.g. blocked by the CSP).
+ */
+export class ThumbhashDecoder {
+  private readonly maxWorkers: number;
+  private readonly workers: PoolWorker[] = [];
+  private readonly requests = new Map<string, DecodeRequest>();
+  private queue: DecodeRequest[] = [];
+  private workerUrl: string | undefined;
+  private workersFailed = false;
+
+  constructor(private readonly options: ThumbhashDecoderOptions) {
+    this.maxWorkers =
+      options.workers ??
+      Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+  }
+
+  /**
+   * Calls the `onDecode` with the data URL of the thumbhash, synchronously when it is cached.
+   *
+   * Returns the function which cancels the request, e.g. when the image is loaded first.
+   */
+  decode(
+    thumbhash: ParsedThumbhash,
+    priority: ImgPriority,
+    onDecode: (src: string) => void
+  ): () => void {
+    const cachedSrc = this.options.cache.get(thumbhash.id);
+    if (cachedSrc != null) {
+      onDecode(cachedSrc);
+      return noop;
+    }
+
+    if (!this.canUseWorkers()) {
+      const src = this.decodeOnMainThread(thumbhash);
+      if (src != null) onDecode(src);
+      return noop;
+    }
+
+    let request = this.requests.get(thumbhash.id);
+    if (request == null) {
+      request = { thumbhash, listeners: new Set(), rank: 0, isRunning: false };
+      this.requests.set(thumbhash.id, request);
+      this.queue.push(request);
+    }
+
+    // Each call gets its own listener, so it can be cancelled separately.
+    const listener = (src: string) => onDecode(src);
+    request.listeners.add(listener);
+    request.rank = Math.max(request.rank, priorityRanks[priority]);
+    this.next();
+
+    return () => {
+      request.listeners.delete(listener);
+      if (request.listeners.size > 0 || request.isRunning) return;
+
+      this.requests.delete(thumbhash.id);
+      this.queue = this.queue.filter(queued => queued !== request);
+    };
+  }
+
+  /**
+   * Terminates the workers and drops the pending requests, e.g. when the decoder is replaced.
+   *
+   * The decoder can still be used, new workers are spawned by the next request.
+   */
+  terminate() {
+    this.workers.forEach(poolWorker => {
+      poolWorker.request = undefined;
+      poolWorker.worker.terminate();
+    });
+    this.workers.length = 0;
+    this.queue = [];
+    this.requests.clear();
+
+    if (this.workerUrl != null) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = undefined;
+    }
+  }
+
+  private canUseWorkers(): boolean {
+    return (
+      !this.workersFailed &&
+      this.maxWorkers > 0 &&
+      typeof Worker !== 'undefined' &&
+      typeof URL.createObjectURL === 'function'
+    );
+  }
+
+  /**
+   * Sends the queued requests with the highest priority to the idle workers.
+   */
+  private next() {
+    while (this.queue.length > 0) {
+      const poolWorker = this.workers.find(w => w.request == null) ?? this.spawn();
+      if (poolWorker == null) return;
+
+      const index = this.queue.reduce(
+        (best, request, i) => (request.rank > this.queue[best].rank ? i : best),
+        0
+      );
+      const [request] = this.queue.splice(index, 1);
+
+      request.isRunning = true;
+      poolWorker.request = request;
+      poolWorker.worker.postMessage({ id: request.thumbhash.id, hash: request.thumbhash.data });
+    }
+  }
+
+  private spawn(): PoolWorker | undefined {
+    if (this.workers.length >= this.maxWorkers) return;
+
+    try {
+      this.workerUrl ??= createWorkerUrl();
+      const poolWorker: PoolWorker = { worker: new Worker(this.workerUrl), request: undefined };
+
+      poolWorker.worker.onmessage = (event: MessageEvent<{ src?: string; error?: string }>) => {
+        this.resolve(poolWorker, event.data.src);
+      };
+      poolWorker.worker.onerror = () => this.fail();
+
+      this.workers.push(poolWorker);
+      return poolWorker;
+    } catch {
+      this.fail();
+      return;
+    }
+  }
+
+  /**
+   * Malformed thumbhashes have no `src`, so only their average color is rendered.
+   */
+  private resolve(poolWorker: PoolWorker, src: string | undefined) {
+    const request = poolWorker.request;
+    poolWorker.request = undefined;
+
+    if (request != null) {
+      this.requests.delete(request.thumbhash.id);
+
+      if (src != null) {
+        // Cancelled requests are cached too, as the thumbhash is likely rendered again.
+        this.options.cache.set(request.thumbhash.id, src);
+        request.listeners.forEach(listener => listener(src));
+      }
+    }
+
+    this.next();
+  }
+
+  /**
+   * Workers cannot be used, so the pending thumbhashes are decoded on the main thread.
+   */
+  private fail() {
+    const requests = [...this.requests.values()];
+    this.workersFailed = true;
+    this.terminate();
+
+    requests.forEach(request => {
+      const src = this.decodeOnMainThread(request.thumbhash);
+      if (src != null) request.listeners.forEach(listener => listener(src));
+    });
+  }
+
+  /**
+   * Malformed thumbhashes return `undefined`, same as in the workers.
+   */
+  private decodeOnMainThread(thumbhash: ParsedThumbhash): string | undefined {
+    try {
+      const src = thumbHashToDataURL(thumbhash.data);
+      this.options.cache.set(thumbhash.id, src);
+      return src;
+    } catch {
+      return;
+    }
+  }
+}
+
+function noop() {}
+
+function createWorkerUrl(): string {
+  return URL.createObjectURL(new Blob([decoderWorkerSource], { type: 'text/javascript' }));
+}
@@ -0,0 +1,171 @@
+import { useEffect } from 'react';
+import { MutationLike, mutationNames } from '../mutation';
+import { useFilejet } from './provider';
+
+export type FilejetDiagnosticCode =
+  | 'missing-thumbhash'
+  | 'missing-alt'
+  | 'invalid-thumbhash'
+  | 'low-resolution'
+  | 'invalid-mutation';
+
+export interface FilejetDiagnostic {
+  readonly code: FilejetDiagnosticCode;
+
+  /**
+   * Human-readable description of the issue.
+   */
+  readonly message: string;
+
+  /**
+   * The `src` (or thumbhash) of the image with the issue.
+   */
+  readonly src: string;
+}
+
+export type FilejetDiagnosticsReporter = (diagnostic: FilejetDiagnostic) => void;
+
+export interface FilejetDiagnosticsOptions {
+  /**
+   * Receives every issue once per source.
+   *
+   * @default consoleDiagnosticsReporter
+   */
+  readonly reporter?: FilejetDiagnosticsReporter;
+}
+
+/**
+ * Reports the diagnostics as console warnings.
+ */
+export const consoleDiagnosticsReporter: FilejetDiagnosticsReporter = diagnostic => {
+  console.warn(`[Filejet] ${diagnostic.message}`, diagnostic.src);
+};
+
+/**
+ * Deduplicates the reported issues, so every issue is reported once per source.
+ */
+export class FilejetDiagnostics {
+  private readonly reported = new Set<string>();
+  private readonly reporter: FilejetDiagnosticsReporter;
+
+  constructor(options: FilejetDiagnosticsOptions) {
+    this.reporter = options.reporter ?? consoleDiagnosticsReporter;
+  }
+
+  report(diagnostic: FilejetDiagnostic): void {
+    const key = `${diagnostic.code}|${diagnostic.src}`;
+    if (this.reported.has(key)) return;
+
+    this.reported.add(key);
+    this.reporter(diagnostic);
+  }
+}
+
+/**
+ * Reports issues with the thumbhash which cannot be parsed.
+ */
+export function reportInvalidThumbhash(
+  diagnostics: FilejetDiagnostics | undefined,
+  thumbhash: string
+) {
+  if (process.env.NODE_ENV === 'production') return;
+
+  diagnostics?.report({
+    code: 'invalid-thumbhash',
+    message: 'Thumbhash cannot be parsed, so it is ignored!',
+    src: thumbhash
+  });
+}
+
+interface ImgDiagnosticsProps {
+  readonly src: string;
+  readonly alt: string | undefined;
+  readonly width: unknown;
+  readonly height: unknown;
+  readonly thumbhash: string | undefined;
+  readonly mutation: MutationLike | undefined;
+}
+
+/**
+ * Reports misuse of the `Img` component detectable from its props.
+ *
+ * Checks are skipped (and removed by minifiers) in the production builds.
+ * Hooks are called unconditionally, so the order of hooks is the same in all builds.
+ */
+export function useImgDiagnostics(props: ImgDiagnosticsProps) {
+  const { diagnostics } = useFilejet();
+
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'production') return;
+    if (diagnostics == null) return;
+    const { src } = props;
+
+    const hasOneDimension = (props.width == null) !== (props.height == null);
+    if (hasOneDimension && props.thumbhash == null) {
+      diagnostics.report({
+        code: 'missing-thumbhash',
+        message: 'Image with only one dimension and without thumbhash causes the layout shift!',
+        src
+      });
+    }
+
+    if (props.alt == null || props.alt.trim() === '') {
+      diagnostics.report({ code: 'missing-alt', message: 'Image has an empty alt text!', src });
+    }
+
+    const invalidMutation = findInvalidMutation(props.mutation);
+    if (invalidMutation != null) {
+      diagnostics.report({
+        code: 'invalid-mutation',
+        message: `Mutation "${invalidMutation}" is not valid!`,
+        src
+      });
+    }
+  }, [
+    diagnostics,
+    props.src,
+    props.alt,
+    props.width,
+    props.height,
+    props.thumbhash,
+    props.mutation
+  ]);
+}
+
+/**
+ * Reports images with the natural size far below the rendered size.
+ */
+export function reportLowResolution(
+  diagnostics: FilejetDiagnostics | undefined,
+  src: string,
+  img: HTMLImageElement
+) {
+  if (process.env.NODE_ENV === 'production') return;
+  if (diagnostics == null || img.naturalWidth === 0 || img.naturalHeight === 0) return;
+
+  // Both dimensions must be small, because `contain` fit leaves one of them smaller by design.
+  const scale = window.devicePixelRatio || 1;
+  const isWidthLow = img.naturalWidth < (img.clientWidth * scale) / 2;
+  const isHeightLow = img.naturalHeight < (img.clientHeight * scale) / 2;
+
+  if (isWidthLow && isHeightLow) {
+    diagnostics.report({
+      code: 'low-resolution',
+      message: `Image of ${img.naturalWidth}x${img.naturalHeight} is rendered at ${img.clientWidth}x${img.clientHeight}!`,
+      src
+    });
+  }
+}
+
+/**
+ * Only mutation strings are validated – the `Mutation` builder is validated when built.
+ */
+function findInvalidMutation(mutation: MutationLike | undefined): string | undefined {
+  if (typeof mutation !== 'string') return;
+
+  return mutation
+    .split(',')
+    .map(m => m.trim())
+    .filter(m => m !== '')
+    .find(m => !/^[a-z]+(_[^\s/]+)?$/.test(m) || !mutationNames.has(m.split('_')[0]));
+}
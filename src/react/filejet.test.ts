@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LruCache } from './cache';
+import { Filejet } from './filejet';
+
+const filejet = new Filejet({
+  domain: 'cdn.filejet.io',
+  routes: [{ host: 'eu.cdn.myapp.com', action: 'direct' }],
+  allowedHosts: ['myapp.com'],
+  info: { batchDelay: 20, maxBatchSize: 10 },
+  adaptive: { initialConditions: { saveData: true } },
+  Img: { dpiScale: [1, 2], placeholderNode: null, errorNode: null },
+  ThumbhashImg: { cache: new LruCache({ maxSize: 10 }), intersectRootMargin: 100, workers: 0 }
+});
+
+describe('Filejet.extend', () => {
+  it('merges the nested options key by key', () => {
+    const { config } = filejet.extend({ Img: { dpiScale: [1] }, info: { batchDelay: 0 } });
+
+    expect(config.Img).toEqual({ dpiScale: [1], placeholderNode: null, errorNode: null });
+    expect(config.info).toEqual({ batchDelay: 0, maxBatchSize: 10 });
+  });
+
+  it('reuses the instances when their config is not overridden', () => {
+    const extended = filejet.extend({ Img: { dpiScale: [1] } });
+
+    expect(extended.infoClient).toBe(filejet.infoClient);
+    expect(extended.adaptive).toBe(filejet.adaptive);
+    expect(filejet.extend({ info: { batchDelay: 0 } }).infoClient).not.toBe(filejet.infoClient);
+  });
+
+  it('matches the routes before the parent routes and adds the allowed hosts', () => {
+    const { config } = filejet.extend({
+      routes: [{ host: 'img.myapp.com', action: 'passthrough' }],
+      allowedHosts: ['*.myapp.com', 'myapp.com']
+    });
+
+    expect(config.routes).toEqual([
+      { host: 'img.myapp.com', action: 'passthrough' },
+      { host: 'eu.cdn.myapp.com', action: 'direct' }
+    ]);
+    expect(config.allowedHosts).toEqual(['myapp.com', '*.myapp.com']);
+  });
+
+  it('merges the adaptive options unless they are toggled', () => {
+    const policy = () => ({ dpiScale: [1] });
+
+    expect(filejet.extend({ adaptive: { policy } }).config.adaptive).toEqual({
+      initialConditions: { saveData: true },
+      policy
+    });
+    expect(filejet.extend({ adaptive: false }).config.adaptive).toBe(false);
+  });
+
+  it('requires onMetrics of the metrics', () => {
+    expect(() => filejet.extend({ metrics: { batchSize: 10 } })).toThrow('Missing onMetrics');
+  });
+});
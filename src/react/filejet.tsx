@@ -1,5 +1,14 @@
 import { ReactNode } from 'react';
+import type { FilejetUrlSigner } from '../filejetImg';
+import { FilejetInfoClient, FilejetInfoClientProps } from '../info';
+import type { FilejetRoute } from '../routing';
+import { FilejetUploadClient, FilejetUploadClientProps } from '../upload';
+import { FilejetAdaptive, FilejetAdaptiveOptions } from './adaptive';
 import type { Cache } from './cache';
+import { ThumbhashDecoder } from './decoder';
+import { FilejetDiagnostics, FilejetDiagnosticsOptions } from './diagnostics';
+import { FilejetMetrics, FilejetMetricsOptions } from './metrics';
+import type { ImgErrorNodeProps, ImgRetryPolicy } from './img';
 
 export interface FilejetProps {
   /**
@@ -10,7 +19,7 @@ export interface FilejetProps {
   readonly domain: string;
 
   /**
-   * @experimental Use with caution! It is recommended to use default `filejetDomain` for all files.
+   * @deprecated Use `routes` with the `direct` action instead.
    *
    * List of other Filejet domains.
    *
@@ -21,6 +30,41 @@ export interface FilejetProps {
    */
   readonly otherFilejetDomains?: string[];
 
+  /**
+   * Routing table deciding the Filejet domain of each image, or whether the URL is proxied,
+   * mutated directly or left untouched. The first matching route is used.
+   *
+   * @example [{ host: 'eu.cdn.myapp.com', action: 'direct' }, { fileId: /^eu-/, action: 'filejet', domain: 'eu.cdn.myapp.com' }]
+   */
+  readonly routes?: FilejetRoute[];
+
+  /**
+   * Hosts of the external URLs allowed to be rendered. Leading `*.` matches any subdomain.
+   *
+   * Images with other hosts render the `errorNode`. All hosts are allowed when omitted.
+   *
+   * @example ['myapp.com', '*.myapp.com']
+   */
+  readonly allowedHosts?: string[];
+
+  /**
+   * Base URL used to resolve relative image URLs.
+   *
+   * Required for relative URLs during server-side rendering.
+   * Should match the `document.baseURI` of the client to prevent hydration mismatch.
+   *
+   * @default document.baseURI
+   * @example 'https://myapp.com/'
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * Signs every URL generated by the `Img` component.
+   *
+   * Either the sync function or the precomputed URLs from `signFilejetImg`.
+   */
+  readonly signer?: FilejetUrlSigner;
+
   /**
    * Img component configuration.
    */
@@ -32,6 +76,21 @@ export interface FilejetProps {
      */
     readonly dpiScale: number[];
 
+    /**
+     * Background color used when the image is resized by the `cover` fit with both dimensions.
+     *
+     * @default 'transparent'
+     */
+    readonly backgroundColor?: string;
+
+    /**
+     * List of image widths in pixels used for the width-descriptor srcSet
+     * when `sizes` is passed into the `Img` component.
+     *
+     * @default [320, 480, 640, 768, 1024, 1280, 1536, 1920, 2560]
+     */
+    readonly breakpoints?: number[];
+
     /**
      * React node to render while the image and thumbhash is not available.
      */
@@ -39,8 +98,25 @@ export interface FilejetProps {
 
     /**
      * React node to render when the image cannot be loaded.
+     *
+     * Render function receives the `retry` callback to load the image again.
      */
-    readonly errorNode: ReactNode;
+    readonly errorNode: ReactNode | ((props: ImgErrorNodeProps) => ReactNode);
+
+    /**
+     * Retry policy for images which cannot be loaded.
+     *
+     * Failed images are not retried by default.
+     */
+    readonly retry?: ImgRetryPolicy;
+
+    /**
+     * Fetches the thumbhash and aspect ratio of file IDs through the `infoClient`
+     * when the `thumbhash`, `width` or `height` is not passed into the `Img` component.
+     *
+     * @default false
+     */
+    readonly fetchInfo?: boolean;
   };
 
   /**
@@ -56,13 +132,206 @@ export interface FilejetProps {
      * The root margin for the intersection observer in pixels.
      */
     readonly intersectRootMargin: number;
+
+    /**
+     * The maximum number of Web Workers decoding thumbhashes. `0` decodes them on the main thread.
+     *
+     * @default One less than the number of CPU cores, at most 4.
+     */
+    readonly workers?: number;
   };
+
+  /**
+   * Upload client configuration.
+   *
+   * Files are uploaded into the Filejet `domain` by default.
+   */
+  readonly upload?: Omit<FilejetUploadClientProps, 'domain'>;
+
+  /**
+   * File info client configuration.
+   *
+   * Info is fetched from the Filejet `domain` by default.
+   */
+  readonly info?: Omit<FilejetInfoClientProps, 'domain'>;
+
+  /**
+   * Reports misuse of images (e.g. missing `alt`, malformed thumbhash or layout shifts),
+   * through the console or custom `reporter`.
+   *
+   * Diagnostics are always disabled in the production builds.
+   */
+  readonly diagnostics?: boolean | FilejetDiagnosticsOptions;
+
+  /**
+   * Adapts the DPI scales and quality of images to the network conditions (data saver, slow connections).
+   *
+   * Server and hydration use the `initialConditions`, so the markup matches.
+   */
+  readonly adaptive?: boolean | FilejetAdaptiveOptions;
+
+  /**
+   * Reports the loading metrics of every `Img` (timings, cache hits, over-fetching and LCP) in batches.
+   *
+   * @example { onMetrics: metrics => analytics.track('images', metrics) }
+   */
+  readonly metrics?: FilejetMetricsOptions;
 }
 
+/**
+ * Partial configuration merged over the parent configuration.
+ *
+ * - `Img`, `ThumbhashImg`, `upload`, `info` and `metrics` are merged key by key.
+ * - `diagnostics` and `adaptive` options are merged key by key, `true` or `false` replaces them.
+ * - `routes` are matched before the parent routes.
+ * - `allowedHosts` and `otherFilejetDomains` are added to the parent ones.
+ * - Other keys are replaced.
+ */
+export type FilejetConfigOverrides = Partial<
+  Omit<FilejetProps, 'Img' | 'ThumbhashImg' | 'upload' | 'info' | 'metrics'>
+> & {
+  readonly Img?: Partial<FilejetProps['Img']>;
+  readonly ThumbhashImg?: Partial<FilejetProps['ThumbhashImg']>;
+  readonly upload?: Partial<NonNullable<FilejetProps['upload']>>;
+  readonly info?: Partial<NonNullable<FilejetProps['info']>>;
+  readonly metrics?: Partial<FilejetMetricsOptions>;
+};
+
 export class Filejet {
   readonly config: FilejetProps;
+  readonly uploadClient: FilejetUploadClient;
+  readonly infoClient: FilejetInfoClient;
+  readonly thumbhashDecoder: ThumbhashDecoder;
+  readonly diagnostics: FilejetDiagnostics | undefined;
+  readonly adaptive: FilejetAdaptive | undefined;
+  readonly metrics: FilejetMetrics | undefined;
 
-  constructor(props: FilejetProps) {
+  /**
+   * @param parent Filejet whose upload and info clients, thumbhash decoder, diagnostics, adaptive policy and metrics are reused when their config is the same.
+   */
+  constructor(props: FilejetProps, parent?: Filejet) {
     this.config = props;
+
+    const isSameUpload =
+      props.domain === parent?.config.domain && props.upload === parent.config.upload;
+    this.uploadClient = isSameUpload
+      ? parent.uploadClient
+      : new FilejetUploadClient({ domain: props.domain, ...props.upload });
+
+    const isSameInfo = props.domain === parent?.config.domain && props.info === parent.config.info;
+    this.infoClient = isSameInfo
+      ? parent.infoClient
+      : new FilejetInfoClient({ domain: props.domain, ...props.info });
+
+    const { cache, workers } = props.ThumbhashImg;
+    const isSameDecoder =
+      cache === parent?.config.ThumbhashImg.cache && workers === parent.config.ThumbhashImg.workers;
+    this.thumbhashDecoder = isSameDecoder
+      ? parent.thumbhashDecoder
+      : new ThumbhashDecoder({ cache, workers });
+
+    if (parent != null && props.diagnostics === parent.config.diagnostics) {
+      this.diagnostics = parent.diagnostics;
+    } else if (process.env.NODE_ENV !== 'production' && props.diagnostics) {
+      this.diagnostics = new FilejetDiagnostics(
+        typeof props.diagnostics === 'object' ? props.diagnostics : {}
+      );
+    }
+
+    if (parent != null && props.adaptive === parent.config.adaptive) {
+      this.adaptive = parent.adaptive;
+    } else if (props.adaptive) {
+      this.adaptive = new FilejetAdaptive(typeof props.adaptive === 'object' ? props.adaptive : {});
+    }
+
+    if (parent != null && props.metrics === parent.config.metrics) {
+      this.metrics = parent.metrics;
+    } else if (props.metrics != null) {
+      this.metrics = new FilejetMetrics(props.metrics);
+    }
   }
+
+  /**
+   * Creates the Filejet with the overrides merged over this configuration.
+   *
+   * @example filejet.extend({ Img: { dpiScale: [1] } })
+   */
+  extend(overrides: FilejetConfigOverrides): Filejet {
+    return new Filejet(mergeFilejetConfig(this.config, overrides), this);
+  }
+}
+
+/**
+ * Parent objects are kept when not overridden, so the shared instances (e.g. the `infoClient`) are reused.
+ */
+function mergeFilejetConfig(config: FilejetProps, overrides: FilejetConfigOverrides): FilejetProps {
+  const {
+    Img,
+    ThumbhashImg,
+    upload,
+    info,
+    metrics,
+    diagnostics,
+    adaptive,
+    routes,
+    allowedHosts,
+    otherFilejetDomains,
+    ...rest
+  } = overrides;
+
+  return {
+    ...config,
+    ...withoutUndefined(rest),
+    Img: Img != null ? { ...config.Img, ...withoutUndefined(Img) } : config.Img,
+    ThumbhashImg:
+      ThumbhashImg != null
+        ? { ...config.ThumbhashImg, ...withoutUndefined(ThumbhashImg) }
+        : config.ThumbhashImg,
+    upload: upload != null ? { ...config.upload, ...withoutUndefined(upload) } : config.upload,
+    info: info != null ? { ...config.info, ...withoutUndefined(info) } : config.info,
+    metrics: metrics != null ? mergeMetrics(config.metrics, metrics) : config.metrics,
+    diagnostics: mergeToggle(config.diagnostics, diagnostics),
+    adaptive: mergeToggle(config.adaptive, adaptive),
+    routes: routes != null ? [...routes, ...(config.routes ?? [])] : config.routes,
+    allowedHosts: mergeHosts(config.allowedHosts, allowedHosts),
+    otherFilejetDomains: mergeHosts(config.otherFilejetDomains, otherFilejetDomains)
+  };
+}
+
+function mergeMetrics(
+  metrics: FilejetMetricsOptions | undefined,
+  overrides: Partial<FilejetMetricsOptions>
+): FilejetMetricsOptions {
+  const onMetrics = overrides.onMetrics ?? metrics?.onMetrics;
+  if (onMetrics == null) throw new Error('Missing onMetrics of the metrics config!');
+  return { ...metrics, ...withoutUndefined(overrides), onMetrics };
+}
+
+/**
+ * Options are merged over the enabled parent, `true` or `false` replaces the parent value.
+ */
+function mergeToggle<T extends object>(
+  value: boolean | T | undefined,
+  override: boolean | T | undefined
+): boolean | T | undefined {
+  if (override === undefined) return value;
+  if (typeof override === 'boolean' || typeof value !== 'object') return override;
+  return { ...value, ...withoutUndefined(override) };
+}
+
+function mergeHosts(
+  hosts: string[] | undefined,
+  overrides: string[] | undefined
+): string[] | undefined {
+  if (overrides == null) return hosts;
+  return [...new Set([...(hosts ?? []), ...overrides])];
+}
+
+/**
+ * Omitted and `undefined` overrides keep the parent value.
+ */
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
 }
@@ -0,0 +1,462 @@
+import React, {
+  HTMLAttributes,
+  KeyboardEvent,
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from 'react';
+import { thumbHashToApproximateAspectRatio } from 'thumbhash';
+import {
+  FilejetUrlSigner,
+  ImgFocalPoint,
+  combineMutations,
+  filejetImg,
+  focalPointToObjectPosition
+} from '../filejetImg';
+import { GalleryLayoutTile, justifiedGalleryLayout, masonryGalleryLayout } from '../galleryLayout';
+import { MutationLike, mutationToString } from '../mutation';
+import { routeFilejetSrc } from '../routing';
+import { ParsedThumbhash, parseThumbhash, thumbhashAverageColor } from '../thumbhash';
+import { useAdaptiveImg } from './adaptive';
+import { reportInvalidThumbhash } from './diagnostics';
+import { useFilejet } from './provider';
+import { ThumbhashImg } from './thumbhash';
+
+export interface GalleryImage {
+  /**
+   * Either the Filejet file ID or URL to the external image.
+   */
+  readonly src: string;
+
+  readonly alt: string;
+
+  /**
+   * Used as the placeholder and as the source of the aspect ratio.
+   */
+  readonly thumbhash?: string;
+
+  /**
+   * Width divided by height. Takes precedence over the aspect ratio of the thumbhash.
+   *
+   * Only this exact ratio crops the image around the `focalPoint`, otherwise the nearest gravity is used.
+   * Images without both are laid out as squares.
+   */
+  readonly aspectRatio?: number;
+
+  /**
+   * The point of the image which should remain visible when the tile crops it.
+   */
+  readonly focalPoint?: ImgFocalPoint;
+
+  /**
+   * Additional mutation to apply to the image.
+   */
+  readonly mutation?: MutationLike;
+}
+
+export interface GalleryProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  readonly images: GalleryImage[];
+
+  /**
+   * - `justified` - Rows of the same height filling the whole width.
+   * - `masonry` - Columns of the same width, each image is placed into the shortest one.
+   */
+  readonly layout: 'justified' | 'masonry';
+
+  /**
+   * The maximum height of the `justified` row in pixels.
+   *
+   * @default 240
+   */
+  readonly rowHeight?: number;
+
+  /**
+   * The minimum width of the `masonry` column in pixels.
+   *
+   * @default 300
+   */
+  readonly columnWidth?: number;
+
+  /**
+   * The fixed number of the `masonry` columns. Takes precedence over the `columnWidth`.
+   */
+  readonly columns?: number;
+
+  /**
+   * Space between the images in pixels.
+   *
+   * @default 8
+   */
+  readonly gap?: number;
+
+  /**
+   * Images within this distance from the viewport (in pixels) are rendered, others are virtualized.
+   *
+   * @default 800
+   */
+  readonly overscan?: number;
+
+  /**
+   * Width of the gallery used before it is measured, e.g. during server-side rendering.
+   *
+   * Nothing is rendered before the measurement when omitted.
+   */
+  readonly initialWidth?: number;
+
+  /**
+   * Makes the tiles clickable, e.g. to open the `ImgViewer` from the clicked tile.
+   */
+  readonly onImageClick?: (index: number, element: HTMLElement) => void;
+
+  /**
+   * Signs the generated URLs.
+   *
+   * Defaults to `signer` from the Filejet config.
+   */
+  readonly signer?: FilejetUrlSigner;
+}
+
+/**
+ * Justified or masonry gallery laid out from the aspect ratios before any image is loaded.
+ *
+ * Every tile is fetched at its exact size. Tiles are re-flowed on every resize of the gallery,
+ * but fetched again only when their size changes significantly.
+ * Only the tiles close to the viewport are rendered.
+ */
+export const Gallery = memo((props: GalleryProps) => {
+  const { diagnostics } = useFilejet();
+  const { images } = props;
+  const gap = props.gap ?? 8;
+  const overscan = props.overscan ?? 800;
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [containerWidth, setContainerWidth] = useState(props.initialWidth);
+
+  // Before the viewport is measured, the tiles at the top of the gallery are rendered.
+  const [range, setRange] = useState({ top: 0, bottom: 2 * overscan });
+
+  const thumbhashes = useMemo(() => {
+    return images.map(image => {
+      if (image.thumbhash == null) return;
+      return parseThumbhash(image.thumbhash) ?? null;
+    });
+  }, [images]);
+
+  useEffect(() => {
+    thumbhashes.forEach((thumbhash, index) => {
+      const src = images[index].thumbhash;
+      if (thumbhash === null && src != null) reportInvalidThumbhash(diagnostics, src);
+    });
+  }, [thumbhashes]);
+
+  const layout = useMemo(() => {
+    if (containerWidth == null) return;
+
+    const aspectRatios = images.map((image, index) => {
+      const thumbhash = thumbhashes[index];
+      const aspectRatio =
+        image.aspectRatio ??
+        (thumbhash != null ? thumbHashToApproximateAspectRatio(thumbhash.data) : 1);
+      return Number.isFinite(aspectRatio) && aspectRatio > 0 ? aspectRatio : 1;
+    });
+
+    if (props.layout === 'masonry') {
+      return masonryGalleryLayout(aspectRatios, {
+        containerWidth,
+        columnWidth: props.columnWidth ?? 300,
+        columns: props.columns,
+        gap
+      });
+    }
+
+    return justifiedGalleryLayout(aspectRatios, {
+      containerWidth,
+      rowHeight: props.rowHeight ?? 240,
+      gap
+    });
+  }, [
+    images,
+    thumbhashes,
+    containerWidth,
+    props.layout,
+    props.rowHeight,
+    props.columnWidth,
+    props.columns,
+    gap
+  ]);
+
+  // Layout always uses the exact width, tiles decide whether to fetch the image again.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container == null) return;
+
+    const measure = () => {
+      if (container.clientWidth > 0) setContainerWidth(container.clientWidth);
+    };
+
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container == null) return;
+
+    let frame: number | undefined;
+    const update = () => {
+      frame = undefined;
+
+      const { top } = container.getBoundingClientRect();
+      const next = { top: -top - overscan, bottom: -top + window.innerHeight + overscan };
+
+      // Range is updated once half of the overscan is scrolled, so not every scroll renders.
+      setRange(range => {
+        const isClose =
+          Math.abs(range.top - next.top) < overscan / 2 &&
+          Math.abs(range.bottom - next.bottom) < overscan / 2;
+        return isClose ? range : next;
+      });
+    };
+
+    const scheduleUpdate = () => {
+      if (frame == null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+
+    // Captured scroll events include the scrollable ancestors of the gallery.
+    window.addEventListener('scroll', scheduleUpdate, { capture: true, passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      if (frame != null) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', scheduleUpdate, { capture: true });
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, [overscan, layout?.height]);
+
+  const htmlProps = useMemo(() => {
+    const {
+      images: _1,
+      layout: _2,
+      rowHeight: _3,
+      columnWidth: _4,
+      columns: _5,
+      gap: _6,
+      overscan: _7,
+      initialWidth: _8,
+      onImageClick: _9,
+      signer: _10,
+      ...htmlProps
+    } = props;
+    return htmlProps;
+  }, [props]);
+
+  return (
+    <div
+      {...htmlProps}
+      style={{ ...htmlProps.style, position: 'relative', height: layout?.height }}
+      ref={containerRef}
+    >
+      {layout?.tiles.map((tile, index) => {
+        if (tile.y + tile.height < range.top || tile.y > range.bottom) return null;
+
+        const image = images[index];
+        return (
+          <GalleryTile
+            key={`${index}|${image.src}`}
+            index={index}
+            image={image}
+            thumbhash={thumbhashes[index] ?? undefined}
+            tile={tile}
+            signer={props.signer}
+            onClick={props.onImageClick}
+          />
+        );
+      })}
+    </div>
+  );
+});
+
+interface GalleryTileProps {
+  readonly index: number;
+  readonly image: GalleryImage;
+  readonly thumbhash: ParsedThumbhash | undefined;
+  readonly tile: GalleryLayoutTile;
+  readonly signer: FilejetUrlSigner | undefined;
+  readonly onClick: ((index: number, element: HTMLElement) => void) | undefined;
+}
+
+const GalleryTile = memo((props: GalleryTileProps) => {
+  const { config } = useFilejet();
+  const { image, thumbhash, tile, index, onClick } = props;
+  const adaptive = useAdaptiveImg(config.Img.dpiScale);
+
+  const [loadingState, setLoadingState] = useState<'loading' | 'loaded' | 'error'>('loading');
+  const [attempt, setAttempt] = useState(0);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+
+  // Small changes of the tile size are covered by the already fetched image.
+  const [requested, setRequested] = useState({ width: tile.width, height: tile.height });
+  const widthChanged = tile.width > 1.5 * requested.width || tile.width < 0.75 * requested.width;
+  const heightChanged =
+    tile.height > 1.5 * requested.height || tile.height < 0.75 * requested.height;
+  if (widthChanged || heightChanged) {
+    setRequested({ width: tile.width, height: tile.height });
+  }
+
+  const averageColor = useMemo(() => {
+    return thumbhash != null ? thumbhashAverageColor(thumbhash) : undefined;
+  }, [thumbhash]);
+
+  // Focal point is usually an inline object, so it is memoized by its serialized form.
+  const focalPoint = JSON.stringify(image.focalPoint ?? null);
+  const objectPosition = focalPointToObjectPosition(image.focalPoint);
+
+  // Mutation builder is immutable, so it is safe to memoize by its serialized form.
+  const mutation = combineMutations(adaptive.mutation, mutationToString(image.mutation));
+
+  const attributes = useMemo(() => {
+    const routing = {
+      filejetDomain: config.domain,
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl
+    };
+
+    if (routeFilejetSrc(image.src, routing).type === 'rejected') return;
+
+    return filejetImg({
+      ...routing,
+      src: image.src,
+      width: requested.width,
+      height: requested.height,
+      dpiScale: adaptive.dpiScale,
+      fit: 'cover',
+      focalPoint: image.focalPoint,
+      // Approximate ratio of the thumbhash would crop the image off the focal point, so the gravity is used instead.
+      aspectRatio: image.aspectRatio,
+      backgroundColor: config.Img.backgroundColor ?? 'transparent',
+      mutation,
+      signer: props.signer ?? config.signer
+    });
+  }, [
+    image.src,
+    requested,
+    focalPoint,
+    image.aspectRatio,
+    mutation,
+    props.signer,
+    adaptive.dpiScale.join(','),
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl,
+    config.signer,
+    config.Img.backgroundColor
+  ]);
+
+  if (attributes == null && loadingState !== 'error') setLoadingState('error');
+
+  const retry = useCallback(() => {
+    setAttempt(attempt => attempt + 1);
+    setLoadingState('loading');
+  }, []);
+
+  const shouldRenderThumbhash = useCallback(() => {
+    return imgRef.current == null || !imgRef.current.complete || loadingState === 'error';
+  }, [loadingState]);
+
+  const isClickable = onClick != null;
+
+  return (
+    <div
+      role={isClickable ? 'button' : 'img'}
+      tabIndex={isClickable ? 0 : undefined}
+      aria-label={image.alt}
+      onClick={isClickable ? event => onClick(index, event.currentTarget) : undefined}
+      onKeyDown={
+        isClickable
+          ? (event: KeyboardEvent<HTMLDivElement>) => {
+              if (event.key !== 'Enter' && event.key !== ' ') return;
+              event.preventDefault();
+              onClick(index, event.currentTarget);
+            }
+          : undefined
+      }
+      style={{
+        position: 'absolute',
+        left: tile.x,
+        top: tile.y,
+        width: tile.width,
+        height: tile.height,
+        overflow: 'hidden',
+        backgroundColor: averageColor,
+        cursor: isClickable ? 'pointer' : undefined
+      }}
+    >
+      {loadingState !== 'error' && attributes != null && (
+        <img
+          key={attempt}
+          src={attributes.src}
+          srcSet={attributes.srcSet}
+          loading="lazy"
+          // We can decode the image in the next frame when thumbhash is provided.
+          decoding={thumbhash != null ? 'async' : 'auto'}
+          onLoad={async elm => {
+            // Hide placeholders after the image is decoded.
+            await elm.currentTarget.decode().catch(() => {});
+            setLoadingState('loaded');
+          }}
+          onError={() => setLoadingState('error')}
+          style={{
+            position: 'absolute',
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover',
+            objectPosition,
+            textIndent: '-10000px', // Hide loading errors.
+            zIndex: 1 // Ensure image is on top of any other nodes.
+          }}
+          alt="" // We use parent's aria-label instead.
+          ref={imgRef}
+        />
+      )}
+
+      {loadingState !== 'loaded' && thumbhash != null && (
+        <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
+          <ThumbhashImg
+            thumbhash={thumbhash}
+            width="100%"
+            height="100%"
+            fit="cover"
+            objectPosition={objectPosition}
+            priority="auto"
+            shouldRender={shouldRenderThumbhash}
+          />
+        </div>
+      )}
+
+      {loadingState !== 'loaded' && thumbhash == null && (
+        <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
+          {config.Img.placeholderNode}
+        </div>
+      )}
+
+      {loadingState === 'error' && (
+        <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
+          {typeof config.Img.errorNode === 'function'
+            ? config.Img.errorNode({ src: attributes?.src ?? image.src, retry })
+            : config.Img.errorNode}
+        </div>
+      )}
+    </div>
+  );
+});
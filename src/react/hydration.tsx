@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = () => () => {};
+
+/**
+ * Returns true on the server and during the hydration.
+ *
+ * Used to render the same markup as the server until the hydration is finished.
+ */
+export function useIsHydrating(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => false,
+    () => true
+  );
+}
@@ -0,0 +1,225 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createTestFilejet, FilejetTestProvider } from '../testing/provider';
+import { decodeThumbhash, failImg, loadImg } from '../testing/img';
+import { filejetMatchers, FilejetMatchers } from '../testing/matchers';
+import { installObserverShims } from '../testing/shims';
+import { FilejetConfigOverrides } from './filejet';
+import { Img, ImgProps } from './img';
+import { Picture, PictureProps } from './picture';
+import { FilejetProvider } from './provider';
+
+declare module 'vitest' {
+  interface Assertion<T> extends FilejetMatchers<T> {}
+}
+
+const thumbhash = '1QcSHQRnh493V4dIh4eXh1h4kJUI';
+
+let root: Root | undefined;
+let container: HTMLElement;
+
+function render(node: React.ReactNode) {
+  container = document.createElement('div');
+  document.body.append(container);
+  root = createRoot(container);
+  act(() => root!.render(node));
+}
+
+function rerender(node: React.ReactNode) {
+  act(() => root!.render(node));
+}
+
+function image(props: Partial<ImgProps> = {}) {
+  const filejet = createTestFilejet({ Img: { dpiScale: [1] } });
+  return (
+    <FilejetTestProvider filejet={filejet}>
+      <Img src="abc" width={100} height={100} fit="cover" alt="Photo" {...props} />
+    </FilejetTestProvider>
+  );
+}
+
+function wrapper(): HTMLElement {
+  return container.querySelector('[aria-label="Photo"]')!;
+}
+
+function img(): HTMLImageElement | null {
+  return wrapper().querySelector('img[alt=""]');
+}
+
+function errorNode(): Element | null {
+  return wrapper().querySelector('[data-filejet-test="error"]');
+}
+
+function wait(ms = 0): Promise<void> {
+  return act(() => new Promise<void>(resolve => setTimeout(resolve, ms)));
+}
+
+describe('Img', () => {
+  const shims = installObserverShims();
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    expect.extend(filejetMatchers);
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = undefined;
+    container.remove();
+  });
+
+  afterAll(() => shims.restore());
+
+  it('renders the resized image and hides the placeholder once loaded', async () => {
+    render(image());
+
+    expect(img()).toMatchFilejetSrc({ src: 'abc', width: 100, height: 100, fit: 'cover' });
+    expect(wrapper().querySelector('[data-filejet-test="placeholder"]')).not.toBeNull();
+
+    await loadImg(wrapper());
+
+    expect(wrapper().querySelector('[data-filejet-test="placeholder"]')).toBeNull();
+  });
+
+  it('retries the image and falls back to the next source', async () => {
+    const onError = vi.fn();
+    render(image({ fallbackSrc: 'fallback', retry: { attempts: 1, backoff: 0 }, onError }));
+
+    await failImg(wrapper());
+    await wait();
+    expect(img()).toMatchFilejetSrc({ src: 'abc' });
+
+    await failImg(wrapper());
+    expect(img()).toMatchFilejetSrc({ src: 'fallback' });
+    expect(onError.mock.calls.map(([event]) => [event.attempt, event.willRetry])).toEqual([
+      [0, true],
+      [1, true]
+    ]);
+    expect(onError.mock.calls[0][0].src).toMatch(/^https:\/\/cdn\.filejet\.test\/abc\//);
+
+    await failImg(wrapper());
+    await wait();
+    await failImg(wrapper());
+
+    expect(img()).toBeNull();
+    expect(errorNode()).not.toBeNull();
+    expect(onError).toHaveBeenLastCalledWith({
+      src: expect.stringContaining('/fallback/'),
+      attempt: 1,
+      willRetry: false
+    });
+  });
+
+  it('loads the new src after the previous one failed', async () => {
+    render(image());
+    await failImg(wrapper());
+    expect(errorNode()).not.toBeNull();
+
+    rerender(image({ src: 'def' }));
+
+    expect(errorNode()).toBeNull();
+    expect(img()).toMatchFilejetSrc({ src: 'def' });
+  });
+
+  it('renders the error node for the host outside of the allowed hosts', () => {
+    const filejet = createTestFilejet({ allowedHosts: ['myapp.com'] });
+    render(
+      <FilejetTestProvider filejet={filejet}>
+        <Img src="https://evil.com/x.jpg" width={100} height={100} fit="cover" alt="Photo" />
+      </FilejetTestProvider>
+    );
+
+    expect(img()).toBeNull();
+    expect(errorNode()).not.toBeNull();
+  });
+
+  it('renders the new URL when the provider config changes', () => {
+    const filejet = createTestFilejet({ Img: { dpiScale: [1] } });
+    const node = (config: FilejetConfigOverrides) => (
+      <FilejetTestProvider filejet={filejet}>
+        <FilejetProvider config={config}>
+          <Img src="abc" width={100} height={100} fit="cover" alt="Photo" />
+        </FilejetProvider>
+      </FilejetTestProvider>
+    );
+
+    render(node({}));
+    expect(img()).toMatchFilejetSrc({ domain: 'cdn.filejet.test' });
+
+    rerender(node({ domain: 'cdn.myapp.com' }));
+    expect(img()).toMatchFilejetSrc({ domain: 'cdn.myapp.com' });
+  });
+
+  it('decodes the thumbhash until the image is loaded', async () => {
+    render(image({ thumbhash }));
+
+    const thumbhashImg = await decodeThumbhash(wrapper());
+    expect(thumbhashImg.getAttribute('src')).toMatch(/^data:image\/png;base64,/);
+
+    await loadImg(wrapper());
+    expect(wrapper().querySelector('img:not([alt])')).toBeNull();
+  });
+});
+
+describe('Picture', () => {
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = undefined;
+    container.remove();
+  });
+
+  function picture(props: Partial<PictureProps> = {}) {
+    const filejet = createTestFilejet({ Img: { dpiScale: [1] } });
+    return (
+      <FilejetTestProvider filejet={filejet}>
+        <Picture
+          src="abc"
+          width={960}
+          height={400}
+          fit="cover"
+          formats={['webp']}
+          alt="Photo"
+          {...props}
+        />
+      </FilejetTestProvider>
+    );
+  }
+
+  it('combines the mutation of the Picture with the art-direction source', () => {
+    render(
+      picture({
+        mutation: 'grayscale',
+        sources: [{ media: '(max-width: 1px)', width: 320, height: 320, mutation: 'blur_2' }]
+      })
+    );
+
+    const source = wrapper().querySelector('source[media]');
+    expect(source).toMatchFilejetSrcSet({
+      width: 320,
+      height: 320,
+      mutation: 'grayscale,blur_2,format_webp'
+    });
+  });
+
+  it('resizes the percentage art-direction source by its container', () => {
+    const clientWidth = vi
+      .spyOn(HTMLElement.prototype, 'clientWidth', 'get')
+      .mockImplementation(function (this: HTMLElement) {
+        return this.id === 'container' ? 600 : 0;
+      });
+
+    render(
+      <div id="container">
+        {picture({ sources: [{ media: '(max-width: 1px)', width: '50%', height: 100 }] })}
+      </div>
+    );
+    clientWidth.mockRestore();
+
+    expect(wrapper().querySelector('source[media]')).toMatchFilejetSrcSet({
+      width: 300,
+      height: 100
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import React, {
   HTMLAttributes,
+  ReactNode,
+  SyntheticEvent,
   memo,
   useCallback,
   useEffect,
@@ -8,19 +10,90 @@ import React, {
   useState
 } from 'react';
 import { thumbHashToApproximateAspectRatio } from 'thumbhash';
-import { ImgObjectFit, filejetImg } from '../filejetImg';
+import {
+  FilejetUrlSigner,
+  ImgFocalPoint,
+  ImgObjectFit,
+  combineMutations,
+  filejetImg,
+  focalPointToObjectPosition
+} from '../filejetImg';
 import { Percentage } from '../helpers';
-import { useFilejet } from './provider';
+import type { FilejetManifestEntry } from '../manifest';
+import { Mutation, MutationLike, mutationToString } from '../mutation';
+import { isUrl, routeFilejetSrc } from '../routing';
+import { useAdaptiveImg } from './adaptive';
+import { reportLowResolution, useImgDiagnostics } from './diagnostics';
+import { useFilejetInfo } from './info';
+import type { ImgPicture } from './picture';
+import { useFilejet, usePreloadCollector } from './provider';
 import { ThumbhashImg, useParsedThumbhash } from './thumbhash';
 
 export type ImgPriority = 'high' | 'low' | 'auto';
 
-export interface ImgProps extends HTMLAttributes<HTMLDivElement> {
+export interface ImgRetryPolicy {
   /**
-   * Either the Filejet file ID or URL to the external image.
+   * The maximum number of retries of each source.
+   */
+  readonly attempts: number;
+
+  /**
+   * The delay before the first retry in milliseconds. Doubled with every retry.
+   */
+  readonly backoff: number;
+
+  /**
+   * Whether the failed image should be retried when the browser goes back online.
+   */
+  readonly retryWhenOnline?: boolean;
+}
+
+export interface ImgLoadEvent {
+  /**
+   * URL of the loaded image.
+   */
+  readonly src: string;
+}
+
+export interface ImgErrorEvent {
+  /**
+   * URL of the image which failed to load.
+   */
+  readonly src: string;
+
+  /**
+   * The number of retries of the failed source before this error.
+   */
+  readonly attempt: number;
+
+  /**
+   * Whether the image will be retried or the next fallback source will be used.
+   */
+  readonly willRetry: boolean;
+}
+
+export interface ImgErrorNodeProps {
+  /**
+   * URL of the image which failed to load.
    */
   readonly src: string;
 
+  /**
+   * Starts loading the image (and its fallback sources) again.
+   */
+  readonly retry: () => void;
+}
+
+const defaultBreakpoints = [320, 480, 640, 768, 1024, 1280, 1536, 1920, 2560];
+
+export interface ImgProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onLoad' | 'onError'> {
+  /**
+   * Either the Filejet file ID, URL to the external image or the entry of the `filejet-manifest`.
+   *
+   * Thumbhash and aspect ratio of the manifest entry are used when not passed.
+   */
+  readonly src: string | FilejetManifestEntry;
+
   /**
    * The width of the image to render.
    */
@@ -39,12 +112,42 @@ export interface ImgProps extends HTMLAttributes<HTMLDivElement> {
    */
   readonly fit: ImgObjectFit;
 
+  /**
+   * The point of the image which should remain visible when the image is cropped by `cover` fit.
+   *
+   * Applies to both the server-side crop and the `object-position` of the image and its thumbhash.
+   *
+   * @default 'center'
+   * @example { x: 0.5, y: 0.2 }
+   */
+  readonly focalPoint?: ImgFocalPoint;
+
   /**
    * Additional mutation to apply to the image.
    *
    * Image is ALWAYS auto-resized to the specified width and height by default.
+   *
+   * @example mutation().grayscale().quality(80)
+   */
+  readonly mutation?: MutationLike;
+
+  /**
+   * The `sizes` attribute describing the rendered width of the image.
+   *
+   * When specified, the width-descriptor srcSet is generated from breakpoints,
+   * so the browser picks the right candidate on the first paint
+   * and percentage sizes do not need to be measured.
+   *
+   * @example '(max-width: 768px) 100vw, 50vw'
+   */
+  readonly sizes?: string;
+
+  /**
+   * List of image widths in pixels used for the width-descriptor srcSet.
+   *
+   * Used only together with `sizes`. Defaults to `Img.breakpoints` from the Filejet config.
    */
-  readonly mutation?: string;
+  readonly breakpoints?: number[];
 
   /**
    * Simplified base64 encoded representation of the image.
@@ -70,18 +173,149 @@ export interface ImgProps extends HTMLAttributes<HTMLDivElement> {
    * Alt text for the image.
    */
   readonly alt: string;
+
+  /**
+   * Sources used in order when the `src` (or the previous fallback) cannot be loaded.
+   *
+   * Either the Filejet file IDs or URLs to the external images.
+   */
+  readonly fallbackSrc?: string | string[];
+
+  /**
+   * Retry policy for images which cannot be loaded.
+   *
+   * Defaults to `Img.retry` from the Filejet config.
+   */
+  readonly retry?: ImgRetryPolicy;
+
+  /**
+   * Called when the image is loaded and decoded.
+   */
+  readonly onLoad?: (event: ImgLoadEvent) => void;
+
+  /**
+   * Called whenever the image fails to load.
+   */
+  readonly onError?: (event: ImgErrorEvent) => void;
+
+  /**
+   * Signs the generated `src` and `srcSet` URLs.
+   *
+   * Either the sync function or the precomputed URLs from `signFilejetImg`.
+   * Defaults to `signer` from the Filejet config.
+   */
+  readonly signer?: FilejetUrlSigner;
+
+  /**
+   * The DPI scale to use for the image.
+   *
+   * Defaults to `Img.dpiScale` from the Filejet config.
+   *
+   * @example [1, 2]
+   */
+  readonly dpiScale?: number[];
+
+  /**
+   * Background color used when the image is resized by the `cover` fit with both dimensions.
+   *
+   * Defaults to `Img.backgroundColor` from the Filejet config.
+   */
+  readonly backgroundColor?: string;
+
+  /**
+   * React node to render while the image and thumbhash is not available.
+   *
+   * Defaults to `Img.placeholderNode` from the Filejet config.
+   */
+  readonly placeholderNode?: ReactNode;
+
+  /**
+   * React node to render when the image cannot be loaded.
+   *
+   * Defaults to `Img.errorNode` from the Filejet config.
+   */
+  readonly errorNode?: ReactNode | ((props: ImgErrorNodeProps) => ReactNode);
+
+  /**
+   * The root margin for decoding the thumbhash in pixels.
+   *
+   * Defaults to `ThumbhashImg.intersectRootMargin` from the Filejet config.
+   */
+  readonly intersectRootMargin?: number;
+
+  /**
+   * Fetches the thumbhash and aspect ratio of the file ID when the `thumbhash`, `width` or `height` is not passed.
+   *
+   * Defaults to `Img.fetchInfo` from the Filejet config.
+   */
+  readonly fetchInfo?: boolean;
+
+  /**
+   * @internal Sources rendered by the `Picture` component.
+   */
+  readonly picture?: ImgPicture;
 }
 
 /**
  * Image component that fetches images from/through the Filejet.
  */
 export const Img = memo((props: ImgProps) => {
-  const { config } = useFilejet();
-  const thumbhash = useParsedThumbhash(props.thumbhash);
+  const { config, diagnostics, metrics } = useFilejet();
+  const preloadCollector = usePreloadCollector();
+  const manifestEntry = typeof props.src !== 'string' ? props.src : undefined;
+  const imageSrc = typeof props.src === 'string' ? props.src : props.src.src;
+
+  const isInfoMissing = props.thumbhash == null || props.width == null || props.height == null;
+  const fetchInfo =
+    (props.fetchInfo ?? config.Img.fetchInfo) &&
+    isInfoMissing &&
+    manifestEntry == null &&
+    !isUrl(imageSrc);
+  const { info } = useFilejetInfo(fetchInfo ? imageSrc : undefined);
+
+  const thumbhashString = props.thumbhash ?? manifestEntry?.thumbhash ?? info?.thumbhash;
+  const thumbhash = useParsedThumbhash(thumbhashString);
+
+  useImgDiagnostics({
+    src: imageSrc,
+    alt: props.alt,
+    width: props.width,
+    height: props.height,
+    thumbhash: thumbhashString,
+    mutation: props.mutation
+  });
 
   const [loadingState, setLoadingState] = useState<'loading' | 'loaded' | 'error'>('loading');
   const loadingFailed = useRef(false);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const retryPolicy = props.retry ?? config.Img.retry;
+  const adaptive = useAdaptiveImg(props.dpiScale ?? config.Img.dpiScale);
+  const dpiScale = adaptive.dpiScale;
+  const backgroundColor = props.backgroundColor ?? config.Img.backgroundColor ?? 'transparent';
+  const placeholderNode =
+    props.placeholderNode !== undefined ? props.placeholderNode : config.Img.placeholderNode;
+  const errorNode = props.errorNode !== undefined ? props.errorNode : config.Img.errorNode;
+
+  const fallbackSrc = props.fallbackSrc ?? [];
+  const sources = [imageSrc, ...(typeof fallbackSrc === 'string' ? [fallbackSrc] : fallbackSrc)];
+
+  // Each attempt remounts the <img /> element, so the browser requests the image again.
+  const [attempt, setAttempt] = useState({ src: imageSrc, sourceIndex: 0, retry: 0, key: 0 });
+  if (attempt.src !== imageSrc) {
+    clearTimeout(retryTimeout.current);
+    loadingFailed.current = false;
+    setAttempt({ src: imageSrc, sourceIndex: 0, retry: 0, key: attempt.key });
+    setLoadingState('loading');
+  }
+
+  const currentSrc = sources[Math.min(attempt.sourceIndex, sources.length - 1)];
+
   const imgRef = useRef<HTMLImageElement | null>(null);
+  const metricsTimings = useRef<{
+    mountedAt?: number;
+    thumbhashDecodedAt?: number;
+    completeOnMount?: boolean;
+  }>({});
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const [wrapperSizes, setWrapperSizes] = useState<{ width?: number; height?: number }>({
     width: undefined,
@@ -92,42 +326,226 @@ export const Img = memo((props: ImgProps) => {
     height: typeof props.height === 'string' && props.height.endsWith('%')
   };
 
+  // Percentages of the art-direction sources are resolved against the container of the image.
+  const hasPercentageSources =
+    props.picture?.sources.some(
+      source => typeof source.width === 'string' || typeof source.height === 'string'
+    ) ?? false;
+  const [containerSizes, setContainerSizes] = useState<{ width?: number; height?: number }>({
+    width: undefined,
+    height: undefined
+  });
+
+  // Browser picks the right candidate from `sizes`, so there is nothing to measure.
+  const isFluid = props.sizes != null;
+
+  // Exact dimensions from the manifest or file info are preferred over the approximation from the thumbhash.
+  const exactAspectRatio = useMemo(() => {
+    if (manifestEntry != null) return manifestEntry.aspectRatio;
+    if (info != null && info.width > 0 && info.height > 0) return info.width / info.height;
+    return undefined;
+  }, [manifestEntry?.aspectRatio, info?.width, info?.height]);
+
+  const aspectRatio = useMemo(() => {
+    if (exactAspectRatio != null) return exactAspectRatio;
+    return thumbhash != null ? thumbHashToApproximateAspectRatio(thumbhash.data) : undefined;
+  }, [exactAspectRatio, thumbhash]);
+
   const { width, height } = useMemo(() => {
     const numericWidth =
       typeof props.width === 'number' && !isPercentage.width ? props.width : wrapperSizes.width;
     const numericHeight =
       typeof props.height === 'number' && !isPercentage.height ? props.height : wrapperSizes.height;
 
-    if (numericWidth != null && numericHeight != null) {
-      return { width: numericWidth, height: numericHeight };
-    }
+    return resolveSize(numericWidth, numericHeight, aspectRatio);
+  }, [props.width, props.height, aspectRatio, wrapperSizes.width, wrapperSizes.height]);
 
-    if (numericWidth != null && thumbhash != null) {
-      const ratio = thumbHashToApproximateAspectRatio(thumbhash.data);
-      return { width: numericWidth, height: Math.round(numericWidth / ratio) };
-    }
+  // Focal point is usually an inline object, so it is memoized by its serialized form.
+  const focalPoint = JSON.stringify(props.focalPoint ?? null);
+  const objectPosition = focalPointToObjectPosition(props.focalPoint);
 
-    if (numericHeight != null && thumbhash != null) {
-      const ratio = thumbHashToApproximateAspectRatio(thumbhash.data);
-      return { width: Math.round(numericHeight * ratio), height: numericHeight };
+  // Mutation builder is immutable, so it is safe to memoize by its serialized form.
+  const mutation = combineMutations(adaptive.mutation, mutationToString(props.mutation));
+
+  // Sources with hosts outside of the `allowedHosts` are skipped like the ones which failed to load.
+  const isRejected = useMemo(() => {
+    const route = routeFilejetSrc(currentSrc, {
+      filejetDomain: config.domain,
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl
+    });
+    return route.type === 'rejected';
+  }, [
+    currentSrc,
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl
+  ]);
+
+  if (isRejected && loadingState !== 'error') {
+    if (attempt.sourceIndex < sources.length - 1) {
+      setAttempt({
+        ...attempt,
+        sourceIndex: attempt.sourceIndex + 1,
+        retry: 0,
+        key: attempt.key + 1
+      });
+    } else {
+      setLoadingState('error');
     }
+  }
 
-    return { width: numericWidth, height: numericHeight };
-  }, [props.width, props.height, thumbhash, wrapperSizes.width, wrapperSizes.height]);
+  const { src, srcSet, sizes } = useMemo(() => {
+    if (isRejected) return { src: currentSrc, srcSet: undefined, sizes: undefined };
 
-  const { src, srcSet } = useMemo(() => {
     return filejetImg({
-      src: props.src,
+      src: currentSrc,
       width,
       height,
-      dpiScale: config.Img.dpiScale,
+      dpiScale,
+      breakpoints: isFluid
+        ? props.breakpoints ?? config.Img.breakpoints ?? defaultBreakpoints
+        : undefined,
+      sizes: props.sizes,
       fit: props.fit,
-      backgroundColor: 'transparent',
-      mutation: props.mutation,
+      focalPoint: props.focalPoint,
+      // Approximate ratio would crop the image off the focal point, so the gravity is used instead.
+      aspectRatio: exactAspectRatio,
+      backgroundColor,
+      mutation,
       filejetDomain: config.domain,
-      otherFilejetDomains: config.otherFilejetDomains
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl,
+      signer: props.signer ?? config.signer
+    });
+  }, [
+    currentSrc,
+    isRejected,
+    width,
+    height,
+    props.fit,
+    focalPoint,
+    exactAspectRatio,
+    mutation,
+    props.sizes,
+    props.breakpoints,
+    props.signer,
+    dpiScale.join(','),
+    backgroundColor,
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl,
+    config.signer,
+    config.Img.breakpoints
+  ]);
+
+  if (props.priority === 'high' && !isRejected) {
+    preloadCollector?.add({ href: src, imageSrcSet: srcSet, imageSizes: sizes });
+  }
+
+  const pictureSources = useMemo(() => {
+    if (props.picture == null || isRejected) return;
+    const { formats, sources, activeIndex } = props.picture;
+
+    return sources.flatMap((source, index) => {
+      // Active source is rendered by this component, so its dimensions are already resolved.
+      const isActive = index === activeIndex;
+      const sourceSize = isActive
+        ? { width, height }
+        : resolveSize(
+            toPixels(source.width, containerSizes.width),
+            toPixels(source.height, containerSizes.height),
+            aspectRatio
+          );
+
+      // Percentages cannot be resolved before the container is measured, so the source is rendered later
+      // instead of serving the original image.
+      if (
+        (source.width != null && sourceSize.width == null) ||
+        (source.height != null && sourceSize.height == null)
+      ) {
+        return [];
+      }
+
+      // Default source falls back to the `<img />` itself when no modern format is supported.
+      const types = source.media != null ? [...formats, undefined] : formats;
+      // Active source matches the rendered `<img />`, including its `mutation`.
+      const baseMutation = isActive
+        ? mutation
+        : combineMutations(adaptive.mutation, mutationToString(source.mutation));
+
+      return types.map(format => {
+        const sourceMutation = combineMutations(
+          baseMutation,
+          format != null ? new Mutation().format(format).toString() : undefined
+        );
+
+        const { srcSet, sizes } = filejetImg({
+          src: currentSrc,
+          width: sourceSize.width,
+          height: sourceSize.height,
+          dpiScale,
+          breakpoints:
+            source.sizes != null
+              ? props.breakpoints ?? config.Img.breakpoints ?? defaultBreakpoints
+              : undefined,
+          sizes: source.sizes,
+          fit: source.fit ?? props.fit,
+          focalPoint: source.focalPoint ?? props.focalPoint,
+          aspectRatio: exactAspectRatio,
+          backgroundColor,
+          mutation: sourceMutation,
+          filejetDomain: config.domain,
+          otherFilejetDomains: config.otherFilejetDomains,
+          routes: config.routes,
+          allowedHosts: config.allowedHosts,
+          baseUrl: config.baseUrl,
+          signer: props.signer ?? config.signer
+        });
+
+        return {
+          key: `${source.media ?? ''}|${format ?? ''}`,
+          media: source.media,
+          type: format != null ? `image/${format}` : undefined,
+          srcSet,
+          sizes
+        };
+      });
     });
-  }, [props.src, width, height, props.fit, props.mutation]);
+  }, [
+    props.picture,
+    currentSrc,
+    isRejected,
+    props.fit,
+    focalPoint,
+    exactAspectRatio,
+    props.breakpoints,
+    props.signer,
+    width,
+    height,
+    aspectRatio,
+    containerSizes.width,
+    containerSizes.height,
+    dpiScale.join(','),
+    backgroundColor,
+    mutation,
+    adaptive.mutation,
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl,
+    config.signer,
+    config.Img.breakpoints
+  ]);
 
   const htmlProps = useMemo(() => {
     const {
@@ -138,17 +556,92 @@ export const Img = memo((props: ImgProps) => {
       thumbhash: _5,
       priority: _6,
       alt: _7,
+      sizes: _8,
+      breakpoints: _9,
+      picture: _10,
+      signer: _11,
+      fallbackSrc: _12,
+      retry: _13,
+      onLoad: _14,
+      onError: _15,
+      focalPoint: _16,
+      dpiScale: _17,
+      backgroundColor: _18,
+      placeholderNode: _19,
+      errorNode: _20,
+      intersectRootMargin: _21,
+      fetchInfo: _22,
       ...htmlProps
     } = props;
     return htmlProps;
   }, [props]);
 
+  const retry = useCallback(() => {
+    clearTimeout(retryTimeout.current);
+    loadingFailed.current = false;
+    setAttempt(attempt => ({ ...attempt, sourceIndex: 0, retry: 0, key: attempt.key + 1 }));
+    setLoadingState('loading');
+  }, []);
+
+  const handleError = (event: SyntheticEvent<HTMLImageElement>) => {
+    loadingFailed.current = true;
+
+    const canRetry = retryPolicy != null && attempt.retry < retryPolicy.attempts;
+    const hasFallback = attempt.sourceIndex < sources.length - 1;
+    // Browser might have picked any candidate of the `srcSet`.
+    const failedSrc = event.currentTarget.currentSrc || src;
+    props.onError?.({ src: failedSrc, attempt: attempt.retry, willRetry: canRetry || hasFallback });
+
+    if (canRetry) {
+      retryTimeout.current = setTimeout(
+        () => {
+          setAttempt(attempt => ({ ...attempt, retry: attempt.retry + 1, key: attempt.key + 1 }));
+        },
+        retryPolicy.backoff * 2 ** attempt.retry
+      );
+      return;
+    }
+
+    if (hasFallback) {
+      setAttempt(attempt => ({
+        ...attempt,
+        sourceIndex: attempt.sourceIndex + 1,
+        retry: 0,
+        key: attempt.key + 1
+      }));
+      return;
+    }
+
+    setLoadingState('error');
+  };
+
+  useEffect(() => {
+    return () => clearTimeout(retryTimeout.current);
+  }, []);
+
+  useEffect(() => {
+    if (metrics == null) return;
+    metricsTimings.current.mountedAt = performance.now();
+    metricsTimings.current.completeOnMount = imgRef.current?.complete;
+  }, []);
+
+  const handleThumbhashDecode = useCallback(() => {
+    metricsTimings.current.thumbhashDecodedAt ??= performance.now();
+  }, []);
+
+  useEffect(() => {
+    if (loadingState !== 'error' || !retryPolicy?.retryWhenOnline) return;
+
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [loadingState, retryPolicy?.retryWhenOnline]);
+
   const shouldRenderThumbhash = useCallback(() => {
     return imgRef.current == null || !imgRef.current.complete || loadingFailed.current;
   }, []);
 
   useEffect(() => {
-    if (wrapperRef.current == null) return;
+    if (wrapperRef.current == null || isFluid) return;
 
     if (isPercentage.width && isPercentage.height) {
       setWrapperSizes({
@@ -167,7 +660,18 @@ export const Img = memo((props: ImgProps) => {
   }, []);
 
   useEffect(() => {
-    if (imgRef.current == null || width == null || height == null) return;
+    const container = wrapperRef.current?.parentElement;
+    if (container == null || !hasPercentageSources) return;
+
+    // Hidden container has no size, so its percentages cannot be resolved.
+    setContainerSizes({
+      width: container.clientWidth || undefined,
+      height: container.clientHeight || undefined
+    });
+  }, [hasPercentageSources]);
+
+  useEffect(() => {
+    if (imgRef.current == null || width == null || height == null || isFluid) return;
 
     const observer =
       isPercentage.width || isPercentage.height
@@ -206,6 +710,47 @@ export const Img = memo((props: ImgProps) => {
     return () => observer?.disconnect();
   }, [width, height]);
 
+  const imgElement = (
+    <img
+      key={attempt.key}
+      src={src}
+      srcSet={srcSet}
+      sizes={sizes}
+      loading={props.priority === 'high' ? 'eager' : 'lazy'}
+      // We can decode the image in the next frame when thumbhash is provided.
+      decoding={props.priority === 'high' ? 'sync' : thumbhash != null ? 'async' : 'auto'}
+      fetchPriority={props.priority}
+      onLoad={async elm => {
+        const img = elm.currentTarget;
+        const loadedAt = performance.now();
+        loadingFailed.current = false;
+
+        // Hide placeholders after the image is decoded.
+        await img.decode();
+        setLoadingState('loaded');
+        reportLowResolution(diagnostics, src, img);
+        metrics?.recordImg(img, {
+          ...metricsTimings.current,
+          loadedAt,
+          decodedAt: performance.now()
+        });
+        props.onLoad?.({ src: img.currentSrc || src });
+      }}
+      onError={handleError}
+      style={{
+        position: 'absolute',
+        width: isPercentage.width ? '100%' : width,
+        height: isPercentage.height ? '100%' : height,
+        objectFit: props.fit,
+        objectPosition,
+        textIndent: '-10000px', // Hide loading errors.
+        zIndex: 1 // Ensure image is on top of any other nodes.
+      }}
+      alt="" // We use parent's aria-label instead.
+      ref={imgRef}
+    />
+  );
+
   return (
     <div
       aria-label={props.alt}
@@ -218,37 +763,19 @@ export const Img = memo((props: ImgProps) => {
       }}
       ref={wrapperRef}
     >
-      {loadingState !== 'error' && (
+      {loadingState !== 'error' &&
         // <img /> needs to be rendered first to ensure thumbhash is
         // not rendered when the image is already loaded from cache.
-        <img
-          src={src}
-          srcSet={srcSet}
-          loading={props.priority === 'high' ? 'eager' : 'lazy'}
-          // We can decode the image in the next frame when thumbhash is provided.
-          decoding={props.priority === 'high' ? 'sync' : thumbhash != null ? 'async' : 'auto'}
-          fetchPriority={props.priority}
-          onLoad={async elm => {
-            // Hide placeholders after the image is decoded.
-            await elm.currentTarget.decode();
-            setLoadingState('loaded');
-          }}
-          onError={() => {
-            loadingFailed.current = true;
-            setLoadingState('error');
-          }}
-          style={{
-            position: 'absolute',
-            width: isPercentage.width ? '100%' : width,
-            height: isPercentage.height ? '100%' : height,
-            objectFit: props.fit,
-            textIndent: '-10000px', // Hide loading errors.
-            zIndex: 1 // Ensure image is on top of any other nodes.
-          }}
-          alt="" // We use parent's aria-label instead.
-          ref={imgRef}
-        />
-      )}
+        (pictureSources == null ? (
+          imgElement
+        ) : (
+          <picture>
+            {pictureSources.map(({ key, ...source }) => (
+              <source key={key} {...source} />
+            ))}
+            {imgElement}
+          </picture>
+        ))}
 
       {loadingState !== 'loaded' && thumbhash != null && (
         <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
@@ -257,27 +784,55 @@ export const Img = memo((props: ImgProps) => {
             width={isPercentage.width ? '100%' : width}
             height={isPercentage.height ? '100%' : height}
             fit={props.fit}
+            objectPosition={objectPosition}
             priority={props.priority ?? 'auto'}
+            intersectRootMargin={props.intersectRootMargin}
             shouldRender={shouldRenderThumbhash}
+            onDecode={handleThumbhashDecode}
           />
         </div>
       )}
 
       {loadingState !== 'loaded' && thumbhash == null && (
-        <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
-          {config.Img.placeholderNode}
-        </div>
+        <div style={{ width: '100%', height: '100%', position: 'absolute' }}>{placeholderNode}</div>
       )}
 
       {loadingState === 'error' && (
         <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
-          {config.Img.errorNode}
+          {typeof errorNode === 'function' ? errorNode({ src, retry }) : errorNode}
         </div>
       )}
     </div>
   );
 });
 
+function toPixels(
+  value: number | Percentage | undefined,
+  containerSize: number | undefined
+): number | undefined {
+  if (typeof value === 'number') return value;
+  if (value == null || containerSize == null) return undefined;
+  return Math.round((containerSize * parseFloat(value)) / 100);
+}
+
+/**
+ * Missing dimension is calculated from the aspect ratio, so the image is not served in its original size.
+ */
+function resolveSize(
+  width: number | undefined,
+  height: number | undefined,
+  aspectRatio: number | undefined
+): { width: number | undefined; height: number | undefined } {
+  if (width != null && height != null) return { width, height };
+  if (width != null && aspectRatio != null) {
+    return { width, height: Math.round(width / aspectRatio) };
+  }
+  if (height != null && aspectRatio != null) {
+    return { width: Math.round(height * aspectRatio), height };
+  }
+  return { width, height };
+}
+
 declare module 'react' {
   interface HTMLAttributes<T> {
     fetchPriority?: 'high' | 'low' | 'auto';
@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { FilejetFileInfo, FilejetInfoClient } from '../info';
+import { useIsHydrating } from './hydration';
+import { useFilejet } from './provider';
+
+export interface FilejetInfoState {
+  /**
+   * Info of the file, `undefined` while loading or when the file does not exist.
+   */
+  readonly info: FilejetFileInfo | undefined;
+
+  readonly error: unknown;
+
+  readonly isLoading: boolean;
+}
+
+interface FilejetInfoResult {
+  readonly client: FilejetInfoClient;
+  readonly id: string;
+  readonly error: unknown;
+}
+
+/**
+ * Fetches the info of the file through the `infoClient` of the Filejet from the `FilejetProvider`.
+ *
+ * Lookups of all components rendered at the same time are batched into a single request.
+ * Cached info is used after the hydration, so the markup matches the server.
+ *
+ * @example const { info } = useFilejetInfo(fileId);
+ */
+export function useFilejetInfo(id: string | undefined): FilejetInfoState {
+  const { infoClient } = useFilejet();
+  const isHydrating = useIsHydrating();
+  const [result, setResult] = useState<FilejetInfoResult | undefined>(undefined);
+
+  const current = result?.client === infoClient && result.id === id ? result : undefined;
+
+  // Cache returns a new object on every read, so the info is memoized until the lookup settles.
+  const cached = useMemo(() => {
+    return id != null && !isHydrating ? infoClient.peek(id) : undefined;
+  }, [infoClient, id, isHydrating, current]);
+
+  useEffect(() => {
+    if (id == null || infoClient.peek(id) !== undefined) return;
+
+    let isCurrent = true;
+    infoClient.get(id).then(
+      () => isCurrent && setResult({ client: infoClient, id, error: undefined }),
+      error => isCurrent && setResult({ client: infoClient, id, error })
+    );
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [infoClient, id]);
+
+  return {
+    info: cached ?? undefined,
+    error: current?.error,
+    isLoading: id != null && cached === undefined && current == null
+  };
+}
@@ -0,0 +1,195 @@
+export interface FilejetImgMetrics {
+  /**
+   * URL of the loaded image (the candidate picked by the browser).
+   */
+  readonly src: string;
+
+  /**
+   * Milliseconds from the mount of the `Img` to the decoded thumbhash, if it was rendered.
+   */
+  readonly thumbhashDecodeTime: number | undefined;
+
+  /**
+   * Milliseconds from the start of the request to the first byte of the response.
+   *
+   * Cross-origin images require the `Timing-Allow-Origin` header, otherwise it is `undefined`.
+   */
+  readonly timeToFirstByte: number | undefined;
+
+  /**
+   * Milliseconds from the start of the request to the end of the response.
+   */
+  readonly loadTime: number | undefined;
+
+  /**
+   * Milliseconds between the `load` event and the decoded image.
+   */
+  readonly decodeTime: number;
+
+  /**
+   * Whether the image was served from the browser cache, `undefined` when unknown.
+   */
+  readonly cached: boolean | undefined;
+
+  /**
+   * Transferred bytes including the headers, `0` when served from the cache.
+   */
+  readonly transferredBytes: number | undefined;
+
+  /**
+   * Device pixels the image is displayed at.
+   */
+  readonly displayedPixels: number;
+
+  /**
+   * Pixels of the fetched image divided by the displayed pixels. Values far above 1 mean the image is too large.
+   */
+  readonly overFetchRatio: number | undefined;
+
+  /**
+   * Whether the image was the Largest Contentful Paint element when the batch was reported.
+   */
+  readonly isLcp: boolean;
+}
+
+export interface FilejetMetricsOptions {
+  /**
+   * Receives the batch of the metrics, e.g. to forward them into the analytics.
+   */
+  readonly onMetrics: (metrics: FilejetImgMetrics[]) => void;
+
+  /**
+   * The maximum number of metrics in the batch.
+   *
+   * @default 20
+   */
+  readonly batchSize?: number;
+
+  /**
+   * The maximum time in milliseconds the metrics wait for the batch.
+   *
+   * Pending metrics are always reported when the page is hidden.
+   *
+   * @default 5000
+   */
+  readonly flushInterval?: number;
+}
+
+/**
+ * Timestamps (from `performance.now()`) collected by the `Img` component.
+ */
+export interface ImgMetricsTimings {
+  readonly mountedAt?: number;
+  readonly thumbhashDecodedAt?: number;
+  readonly loadedAt: number;
+  readonly decodedAt: number;
+  readonly completeOnMount?: boolean;
+}
+
+interface PendingMetrics {
+  readonly img: HTMLImageElement;
+  readonly metrics: Omit<FilejetImgMetrics, 'isLcp'>;
+}
+
+/**
+ * Collects the loading metrics of images and reports them in batches.
+ */
+export class FilejetMetrics {
+  private readonly batchSize: number;
+  private readonly flushInterval: number;
+  private pending: PendingMetrics[] = [];
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+  private lcpElement: Element | null = null;
+  private isListening = false;
+
+  constructor(private readonly options: FilejetMetricsOptions) {
+    this.batchSize = options.batchSize ?? 20;
+    this.flushInterval = options.flushInterval ?? 5000;
+  }
+
+  /**
+   * Records the metrics of the loaded image.
+   */
+  recordImg(img: HTMLImageElement, timings: ImgMetricsTimings): void {
+    this.listen();
+
+    const src = img.currentSrc || img.src;
+    const entry = performance.getEntriesByName(src, 'resource').at(-1) as
+      | PerformanceResourceTiming
+      | undefined;
+
+    // Cross-origin entries without the `Timing-Allow-Origin` header have zero sizes and timings.
+    const timing = entry != null && entry.responseStart > 0 ? entry : undefined;
+    const scale = window.devicePixelRatio || 1;
+    const displayedPixels = Math.round(img.clientWidth * scale * img.clientHeight * scale);
+    const naturalPixels = img.naturalWidth * img.naturalHeight;
+
+    this.pending.push({
+      img,
+      metrics: {
+        src,
+        thumbhashDecodeTime:
+          timings.mountedAt != null && timings.thumbhashDecodedAt != null
+            ? timings.thumbhashDecodedAt - timings.mountedAt
+            : undefined,
+        timeToFirstByte: timing != null ? timing.responseStart - timing.startTime : undefined,
+        loadTime: timing != null ? timing.responseEnd - timing.startTime : undefined,
+        decodeTime: timings.decodedAt - timings.loadedAt,
+        cached:
+          timing != null
+            ? timing.transferSize === 0 && timing.decodedBodySize > 0
+            : timings.completeOnMount || undefined,
+        transferredBytes: timing?.transferSize,
+        displayedPixels,
+        overFetchRatio:
+          displayedPixels > 0 && naturalPixels > 0 ? naturalPixels / displayedPixels : undefined
+      }
+    });
+
+    if (this.pending.length >= this.batchSize) {
+      this.flush();
+    } else {
+      this.timeout ??= setTimeout(() => this.flush(), this.flushInterval);
+    }
+  }
+
+  /**
+   * Reports all pending metrics immediately.
+   */
+  flush(): void {
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+    if (this.pending.length === 0) return;
+
+    const batch = this.pending.map(({ img, metrics }) => ({
+      ...metrics,
+      isLcp: img === this.lcpElement
+    }));
+    this.pending = [];
+    this.options.onMetrics(batch);
+  }
+
+  /**
+   * Starts observing the LCP and the page visibility with the first recorded image.
+   */
+  private listen() {
+    if (this.isListening) return;
+    this.isListening = true;
+
+    const isLcpSupported =
+      typeof PerformanceObserver !== 'undefined' &&
+      PerformanceObserver.supportedEntryTypes?.includes('largest-contentful-paint');
+
+    if (isLcpSupported) {
+      new PerformanceObserver(list => {
+        const entries = list.getEntries() as Array<PerformanceEntry & { element?: Element | null }>;
+        this.lcpElement = entries.at(-1)?.element ?? this.lcpElement;
+      }).observe({ type: 'largest-contentful-paint', buffered: true });
+    }
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flush();
+    });
+    window.addEventListener('pagehide', () => this.flush());
+  }
+}
@@ -0,0 +1,165 @@
+import React, { memo, useCallback, useSyncExternalStore } from 'react';
+import { combineMutations, ImgFocalPoint, ImgObjectFit } from '../filejetImg';
+import { Percentage } from '../helpers';
+import { MutationLike, mutationToString } from '../mutation';
+import { Img, ImgProps } from './img';
+
+export type PictureFormat = 'avif' | 'webp';
+
+const defaultFormats: PictureFormat[] = ['avif', 'webp'];
+
+export interface PictureSource {
+  /**
+   * Media query for which this source is used.
+   *
+   * @example '(max-width: 768px)'
+   */
+  readonly media: string;
+
+  /**
+   * The width of the image to render when the media query matches.
+   */
+  readonly width?: number | Percentage;
+
+  /**
+   * The height of the image to render when the media query matches.
+   */
+  readonly height?: number | Percentage;
+
+  /**
+   * Specifies how to resize the image when the media query matches.
+   *
+   * Defaults to the `fit` of the `Picture`.
+   */
+  readonly fit?: ImgObjectFit;
+
+  /**
+   * The focal point of the image when the media query matches.
+   *
+   * Defaults to the `focalPoint` of the `Picture`.
+   */
+  readonly focalPoint?: ImgFocalPoint;
+
+  /**
+   * Additional mutation to apply to the image when the media query matches.
+   *
+   * Combined with the `mutation` of the `Picture`.
+   */
+  readonly mutation?: MutationLike;
+
+  /**
+   * The `sizes` attribute when the media query matches.
+   */
+  readonly sizes?: string;
+}
+
+/**
+ * @internal Picture configuration passed from `Picture` into `Img`.
+ */
+export interface ImgPicture {
+  readonly formats: PictureFormat[];
+
+  /**
+   * Art-direction sources followed by the default one without the media query.
+   */
+  readonly sources: Array<Omit<PictureSource, 'media'> & { readonly media: string | undefined }>;
+
+  /**
+   * Index of the source which currently matches and is rendered by `Img`.
+   */
+  readonly activeIndex: number;
+}
+
+export interface PictureProps extends ImgProps {
+  /**
+   * Modern formats to offer, in the order of preference.
+   *
+   * Browser falls back to the automatically selected format when none of them is supported.
+   *
+   * @default ['avif', 'webp']
+   */
+  readonly formats?: PictureFormat[];
+
+  /**
+   * Art-direction sources. The first source with the matching media query is used.
+   *
+   * When none matches, the `Picture` props are used.
+   *
+   * @example [{ media: '(max-width: 768px)', width: 320, height: 320 }]
+   */
+  readonly sources?: PictureSource[];
+}
+
+/**
+ * Picture component that offers modern formats and art direction from/through the Filejet.
+ *
+ * Renders the same placeholders as the `Img` component.
+ */
+export const Picture = memo((props: PictureProps) => {
+  const { formats = defaultFormats, sources = [], ...imgProps } = props;
+
+  const matchingIndex = useMatchingSourceIndex(sources);
+  const activeSource = matchingIndex !== -1 ? sources[matchingIndex] : undefined;
+  const pictureMutation = mutationToString(props.mutation);
+
+  const picture: ImgPicture = {
+    formats,
+    sources: [
+      ...sources.map(source => ({
+        ...source,
+        mutation: combineMutations(pictureMutation, mutationToString(source.mutation))
+      })),
+      {
+        media: undefined,
+        width: props.width,
+        height: props.height,
+        fit: props.fit,
+        focalPoint: props.focalPoint,
+        mutation: props.mutation,
+        sizes: props.sizes
+      }
+    ],
+    activeIndex: matchingIndex !== -1 ? matchingIndex : sources.length
+  };
+
+  if (activeSource == null) {
+    return <Img {...imgProps} picture={picture} />;
+  }
+
+  return (
+    <Img
+      {...imgProps}
+      width={activeSource.width}
+      height={activeSource.height}
+      fit={activeSource.fit ?? props.fit}
+      focalPoint={activeSource.focalPoint ?? props.focalPoint}
+      mutation={combineMutations(pictureMutation, mutationToString(activeSource.mutation))}
+      sizes={activeSource.sizes}
+      picture={picture}
+    />
+  );
+});
+
+/**
+ * Returns the index of the first source with the matching media query.
+ *
+ * Server (and hydration) always renders the default source to prevent hydration mismatch.
+ */
+function useMatchingSourceIndex(sources: PictureSource[]): number {
+  const media = sources.map(source => source.media).join('\n');
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const queries = media === '' ? [] : media.split('\n').map(m => window.matchMedia(m));
+      queries.forEach(query => query.addEventListener('change', onChange));
+      return () => queries.forEach(query => query.removeEventListener('change', onChange));
+    },
+    [media]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => sources.findIndex(source => window.matchMedia(source.media).matches),
+    () => -1
+  );
+}
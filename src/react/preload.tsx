@@ -0,0 +1,82 @@
+import React from 'react';
+
+export interface FilejetPreloadLink {
+  readonly href: string;
+  readonly imageSrcSet: string | undefined;
+  readonly imageSizes: string | undefined;
+}
+
+/**
+ * Collects `priority="high"` images rendered on the server,
+ * so they can be preloaded from the document head.
+ *
+ * Create a new collector for every request!
+ */
+export class FilejetPreloadCollector {
+  private readonly links = new Map<string, FilejetPreloadLink>();
+
+  add(link: FilejetPreloadLink): void {
+    const key = `${link.href}|${link.imageSrcSet ?? ''}|${link.imageSizes ?? ''}`;
+    if (!this.links.has(key)) this.links.set(key, link);
+  }
+
+  /**
+   * Returns all collected preload links.
+   */
+  getLinks(): FilejetPreloadLink[] {
+    return [...this.links.values()];
+  }
+
+  /**
+   * Returns all collected preload links as HTML to be injected into the document head.
+   */
+  toHtml(): string {
+    return this.getLinks()
+      .map(link => {
+        const attributes = [
+          ['rel', 'preload'],
+          ['as', 'image'],
+          ['href', link.href],
+          ['imagesrcset', link.imageSrcSet],
+          ['imagesizes', link.imageSizes],
+          ['fetchpriority', 'high']
+        ]
+          .filter((attribute): attribute is string[] => attribute[1] != null)
+          .map(([name, value]) => `${name}="${escapeAttribute(value)}"`);
+
+        return `<link ${attributes.join(' ')}>`;
+      })
+      .join('');
+  }
+}
+
+export interface FilejetPreloadLinksProps {
+  readonly collector: FilejetPreloadCollector;
+}
+
+/**
+ * Renders the collected preload links.
+ *
+ * Must be rendered after the images are collected, e.g. in a separate render of the document head.
+ */
+export function FilejetPreloadLinks(props: FilejetPreloadLinksProps) {
+  return (
+    <>
+      {props.collector.getLinks().map(link => (
+        <link
+          key={`${link.href}|${link.imageSrcSet ?? ''}|${link.imageSizes ?? ''}`}
+          rel="preload"
+          as="image"
+          href={link.href}
+          imageSrcSet={link.imageSrcSet}
+          imageSizes={link.imageSizes}
+          fetchPriority="high"
+        />
+      ))}
+    </>
+  );
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
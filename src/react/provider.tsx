@@ -1,15 +1,61 @@
-import React, { ReactNode, createContext, useContext } from 'react';
-import { Filejet } from './filejet';
+import React, { ReactNode, createContext, useContext, useEffect, useMemo } from 'react';
+import { Filejet, FilejetConfigOverrides } from './filejet';
+import type { FilejetPreloadCollector } from './preload';
 
 export interface FilejetProviderProps {
-  readonly filejet: Filejet;
+  /**
+   * Required by the root provider. Nested providers use the Filejet of their parent by default.
+   */
+  readonly filejet?: Filejet;
+
+  /**
+   * Partial configuration merged over the `filejet` (or parent) configuration,
+   * e.g. different `Img` defaults for a section of the app.
+   *
+   * Should be memoized, as every new object re-renders all images in the provider.
+   *
+   * @example { Img: { dpiScale: [1], placeholderNode: <AvatarPlaceholder /> } }
+   */
+  readonly config?: FilejetConfigOverrides;
+
+  /**
+   * Collects `priority="high"` images during the server-side rendering.
+   *
+   * Nested providers use the collector of their parent by default.
+   */
+  readonly preloadCollector?: FilejetPreloadCollector;
+
   readonly children: ReactNode;
 }
 
 const context = createContext<Filejet | undefined>(undefined);
 
+const preloadCollectorContext = createContext<FilejetPreloadCollector | undefined>(undefined);
+
 export function FilejetProvider(props: FilejetProviderProps) {
-  return <context.Provider value={props.filejet}>{props.children}</context.Provider>;
+  const parent = useContext(context);
+  const parentPreloadCollector = useContext(preloadCollectorContext);
+
+  const base = props.filejet ?? parent;
+  if (!base) throw new Error('Missing filejet in the root FilejetProvider!');
+
+  const filejet = useMemo(() => {
+    return props.config != null ? base.extend(props.config) : base;
+  }, [base, props.config]);
+
+  // The overridden decoder is owned by this provider, so its workers do not outlive the config.
+  useEffect(() => {
+    if (filejet.thumbhashDecoder === base.thumbhashDecoder) return;
+    return () => filejet.thumbhashDecoder.terminate();
+  }, [base, filejet]);
+
+  return (
+    <context.Provider value={filejet}>
+      <preloadCollectorContext.Provider value={props.preloadCollector ?? parentPreloadCollector}>
+        {props.children}
+      </preloadCollectorContext.Provider>
+    </context.Provider>
+  );
 }
 
 export function useFilejet() {
@@ -17,3 +63,7 @@ export function useFilejet() {
   if (!filejet) throw new Error('Missing FilejetProvider!');
   return filejet;
 }
+
+export function usePreloadCollector() {
+  return useContext(preloadCollectorContext);
+}
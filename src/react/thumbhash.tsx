@@ -1,28 +1,30 @@
 import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
-import { thumbHashToAverageRGBA, thumbHashToDataURL } from 'thumbhash';
 import type { ImgObjectFit } from '../filejetImg';
-import { base64UrlDecode, Percentage } from '../helpers';
+import { Percentage } from '../helpers';
+import { ParsedThumbhash, parseThumbhash, thumbhashAverageColor } from '../thumbhash';
+import { reportInvalidThumbhash } from './diagnostics';
+import { useIsHydrating } from './hydration';
 import type { ImgPriority } from './img';
 import { useFilejet } from './provider';
 
-export interface ParsedThumbhash {
-  readonly id: string;
-  readonly data: Uint8Array;
-}
-
 /**
  * Parses the thumbhash string into a more usable format.
  *
- * Returned data is cached.
+ * Returned data is cached. Malformed thumbhash is ignored.
  */
 export function useParsedThumbhash(thumbhash: string | undefined): ParsedThumbhash | undefined {
-  return useMemo(() => {
+  const { diagnostics } = useFilejet();
+
+  const parsed = useMemo(() => {
     if (thumbhash == null) return;
-    return {
-      id: thumbhash,
-      data: Uint8Array.from(base64UrlDecode(thumbhash), c => c.charCodeAt(0))
-    };
+    return parseThumbhash(thumbhash) ?? null;
   }, [thumbhash]);
+
+  useEffect(() => {
+    if (parsed === null && thumbhash != null) reportInvalidThumbhash(diagnostics, thumbhash);
+  }, [parsed]);
+
+  return parsed ?? undefined;
 }
 
 export interface ThumbhashImgProps {
@@ -30,12 +32,25 @@ export interface ThumbhashImgProps {
   readonly width: number | Percentage | undefined;
   readonly height: number | Percentage | undefined;
   readonly fit: ImgObjectFit;
+  readonly objectPosition?: string;
   readonly priority: ImgPriority;
 
+  /**
+   * The root margin for the intersection observer in pixels.
+   *
+   * Defaults to `ThumbhashImg.intersectRootMargin` from the Filejet config.
+   */
+  readonly intersectRootMargin?: number;
+
   /**
    * Whether a thumbhash should actually be rendered.
    */
   readonly shouldRender: () => boolean;
+
+  /**
+   * Called when the thumbhash is decoded (or read from the cache).
+   */
+  readonly onDecode?: () => void;
 }
 
 /**
@@ -44,25 +59,29 @@ export interface ThumbhashImgProps {
  * Often used as a placeholder while the full-quality image is being fetched.
  */
 export const ThumbhashImg = memo((props: ThumbhashImgProps) => {
-  const { config } = useFilejet();
+  const { config, thumbhashDecoder } = useFilejet();
+  const isHydrating = useIsHydrating();
 
   const [src, setSrc] = useState<string | undefined>(() => {
+    // Server has no cache, so the cached thumbhash must not be rendered before the hydration.
+    if (isHydrating) return;
     return props.thumbhash != null ? config.ThumbhashImg.cache.get(props.thumbhash.id) : undefined;
   });
 
   const decodingRequested = useRef(false);
+  const rootMargin = props.intersectRootMargin ?? config.ThumbhashImg.intersectRootMargin;
 
   const intersectionObserver = useRef<IntersectionObserver | undefined>(undefined);
+  const cancelDecode = useRef<(() => void) | undefined>(undefined);
   useEffect(() => {
-    return () => intersectionObserver.current?.disconnect();
+    return () => {
+      intersectionObserver.current?.disconnect();
+      // Image is usually loaded first, so its thumbhash does not need to be decoded anymore.
+      cancelDecode.current?.();
+    };
   }, []);
 
-  // Ultra fast average color calculation from thumbhash.
-  const averageColor = useMemo(() => {
-    const { r, g, b, a } = thumbHashToAverageRGBA(props.thumbhash.data);
-    const { round } = Math;
-    return `rgba(${round(255 * r)},${round(255 * g)},${round(255 * b)},${a})`;
-  }, [props.thumbhash]);
+  const averageColor = useMemo(() => thumbhashAverageColor(props.thumbhash), [props.thumbhash]);
 
   return (
     <img
@@ -73,6 +92,7 @@ export const ThumbhashImg = memo((props: ThumbhashImgProps) => {
         width: props.width,
         height: props.height,
         objectFit: props.fit,
+        objectPosition: props.objectPosition,
         backgroundColor: averageColor
       }}
       ref={elm => {
@@ -89,7 +109,7 @@ export const ThumbhashImg = memo((props: ThumbhashImgProps) => {
           if (!props.shouldRender()) return;
 
           if (props.priority !== 'low') {
-            if (isInViewport(elm, config.ThumbhashImg.intersectRootMargin)) {
+            if (isInViewport(elm, rootMargin)) {
               decode();
               return;
             }
@@ -112,20 +132,16 @@ export const ThumbhashImg = memo((props: ThumbhashImgProps) => {
               intersectionObserver.current?.disconnect();
               intersectionObserver.current = undefined;
             },
-            { rootMargin: `${config.ThumbhashImg.intersectRootMargin}px` }
+            { rootMargin: `${rootMargin}px` }
           );
           intersectionObserver.current.observe(elm);
 
           function decode() {
-            const cachedSrc = config.ThumbhashImg.cache.get(props.thumbhash.id);
-            if (cachedSrc == null) {
-              const src = thumbHashToDataURL(props.thumbhash.data);
+            cancelDecode.current = thumbhashDecoder.decode(props.thumbhash, props.priority, src => {
               elm!.src = src; // Do not wait for React - set the src directly.
               setSrc(src);
-              config.ThumbhashImg.cache.set(props.thumbhash.id, src);
-            } else {
-              setSrc(cachedSrc);
-            }
+              props.onDecode?.();
+            });
           }
         });
       }}
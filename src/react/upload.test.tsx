@@ -0,0 +1,167 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createTestFilejet, FilejetTestProvider } from '../testing/provider';
+import {
+  FilejetDropzone,
+  FilejetUploadState,
+  useFilejetUpload,
+  UseFilejetUploadOptions
+} from './upload';
+
+let root: Root | undefined;
+let state: FilejetUploadState;
+
+function createFetch(failures = 0) {
+  let requests = 0;
+  return vi.fn(async () => {
+    requests++;
+    return requests <= failures
+      ? new Response(null, { status: 400 })
+      : Response.json({ fileId: `file-${requests}` });
+  });
+}
+
+function render(options: UseFilejetUploadOptions, fetch = createFetch()) {
+  const filejet = createTestFilejet({ upload: { fetch } });
+
+  function Uploader() {
+    state = useFilejetUpload(options);
+    return null;
+  }
+
+  const container = document.createElement('div');
+  root = createRoot(container);
+  act(() =>
+    root!.render(
+      <FilejetTestProvider filejet={filejet}>
+        <Uploader />
+      </FilejetTestProvider>
+    )
+  );
+}
+
+/**
+ * Uploads are started by the effect and finished asynchronously.
+ */
+function settle(): Promise<void> {
+  return act(() => new Promise<void>(resolve => setTimeout(resolve)));
+}
+
+const image = () => new File([new Uint8Array(10)], 'photo.png', { type: 'image/png' });
+
+describe('useFilejetUpload', () => {
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = undefined;
+  });
+
+  it('uploads the added files', async () => {
+    const onUploaded = vi.fn();
+    const fetch = createFetch();
+    render({ onUploaded }, fetch);
+
+    act(() => state.add([image(), image()]));
+    await settle();
+
+    expect(state.uploads.map(u => [u.status, u.fileId])).toEqual([
+      ['uploaded', 'file-1'],
+      ['uploaded', 'file-2']
+    ]);
+    expect(onUploaded).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not upload the rejected file', async () => {
+    const onError = vi.fn();
+    const fetch = createFetch();
+    render({ accept: ['image/jpeg'], maxSize: 5, onError }, fetch);
+
+    act(() => state.add([image()]));
+    await settle();
+
+    expect(state.uploads[0]).toMatchObject({ status: 'error' });
+    expect(state.uploads[0].error?.message).toBe('File type "image/png" is not accepted!');
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    act(() => state.retry(state.uploads[0].key));
+    await settle();
+
+    expect(state.uploads[0]).toMatchObject({ status: 'error' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('retries the failed upload', async () => {
+    const fetch = createFetch(1);
+    render({}, fetch);
+
+    act(() => state.add([image()]));
+    await settle();
+    expect(state.uploads[0]).toMatchObject({ status: 'error' });
+
+    act(() => state.retry(state.uploads[0].key));
+    await settle();
+
+    expect(state.uploads[0]).toMatchObject({ status: 'uploaded', fileId: 'file-2' });
+  });
+
+  it('respects the concurrency', async () => {
+    let resolve = () => {};
+    const fetch = vi.fn(async () => {
+      await new Promise<void>(r => (resolve = r));
+      return Response.json({ fileId: 'file' });
+    });
+    render({ concurrency: 1 }, fetch);
+
+    act(() => state.add([image(), image()]));
+    await settle();
+
+    expect(state.uploads.map(u => u.status)).toEqual(['uploading', 'pending']);
+
+    resolve();
+    await settle();
+    expect(state.uploads.map(u => u.status)).toEqual(['uploaded', 'uploading']);
+  });
+});
+
+describe('FilejetDropzone', () => {
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = undefined;
+  });
+
+  it('uploads the dropped files', async () => {
+    const filejet = createTestFilejet({ upload: { fetch: createFetch() } });
+    const container = document.createElement('div');
+    document.body.append(container);
+    root = createRoot(container);
+
+    act(() =>
+      root!.render(
+        <FilejetTestProvider filejet={filejet}>
+          <FilejetDropzone>
+            {dropzone => {
+              state = dropzone;
+              return <div data-testid="dropzone" {...dropzone.rootProps} />;
+            }}
+          </FilejetDropzone>
+        </FilejetTestProvider>
+      )
+    );
+
+    const drop = new Event('drop', { bubbles: true });
+    Object.defineProperty(drop, 'dataTransfer', { value: { files: [image()] } });
+    act(() => {
+      container.querySelector('[data-testid="dropzone"]')!.dispatchEvent(drop);
+    });
+    await settle();
+
+    expect(state.uploads.map(u => u.status)).toEqual(['uploaded']);
+    container.remove();
+  });
+});
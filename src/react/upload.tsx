@@ -0,0 +1,436 @@
+import React, {
+  ClipboardEvent,
+  DragEvent,
+  HTMLAttributes,
+  ReactNode,
+  memo,
+  useCallback,
+  useEffect,
+  useRef,
+  useState
+} from 'react';
+import { FilejetUploadError, UploadProgress } from '../upload';
+import { Img, ImgProps } from './img';
+import { useFilejet } from './provider';
+
+export type FilejetUploadStatus = 'pending' | 'uploading' | 'uploaded' | 'error' | 'cancelled';
+
+export interface FilejetUpload {
+  /**
+   * Unique key of the upload.
+   */
+  readonly key: string;
+
+  readonly file: File;
+
+  readonly status: FilejetUploadStatus;
+
+  readonly progress: UploadProgress;
+
+  /**
+   * Validation or upload error.
+   */
+  readonly error: Error | undefined;
+
+  /**
+   * Local object URL of the image which can be rendered before the file is uploaded.
+   */
+  readonly previewUrl: string | undefined;
+
+  /**
+   * Filejet file ID available once the file is uploaded.
+   */
+  readonly fileId: string | undefined;
+}
+
+export interface UseFilejetUploadOptions {
+  /**
+   * Accepted MIME types. Wildcards are supported.
+   *
+   * @example ['image/*', 'application/pdf']
+   */
+  readonly accept?: string[];
+
+  /**
+   * The maximum file size in bytes.
+   */
+  readonly maxSize?: number;
+
+  /**
+   * The minimum width and height of images in pixels.
+   */
+  readonly minDimensions?: { readonly width?: number; readonly height?: number };
+
+  /**
+   * The maximum width and height of images in pixels.
+   */
+  readonly maxDimensions?: { readonly width?: number; readonly height?: number };
+
+  /**
+   * The maximum number of files uploaded at the same time.
+   *
+   * @default 3
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Called when the file is uploaded.
+   */
+  readonly onUploaded?: (upload: FilejetUpload) => void;
+
+  /**
+   * Called when the file cannot be validated or uploaded.
+   */
+  readonly onError?: (upload: FilejetUpload) => void;
+}
+
+export interface FilejetUploadState {
+  readonly uploads: FilejetUpload[];
+
+  /**
+   * Validates the files and adds them into the upload queue.
+   */
+  readonly add: (files: Iterable<File>) => void;
+
+  /**
+   * Cancels the pending or running upload.
+   */
+  readonly cancel: (key: string) => void;
+
+  /**
+   * Retries the failed or cancelled upload. Chunked uploads are resumed.
+   *
+   * Files which fail the validation again stay in the `error` status.
+   */
+  readonly retry: (key: string) => void;
+
+  /**
+   * Cancels the upload and removes it from the list.
+   */
+  readonly remove: (key: string) => void;
+}
+
+let nextUploadKey = 0;
+
+/**
+ * Uploads files through the `uploadClient` of the Filejet from the `FilejetProvider`.
+ *
+ * Tracks the progress and error state of each file.
+ */
+export function useFilejetUpload(options: UseFilejetUploadOptions = {}): FilejetUploadState {
+  const { uploadClient } = useFilejet();
+  const [uploads, setUploads] = useState<FilejetUpload[]>([]);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const controllers = useRef(new Map<string, AbortController>());
+  const resumableIds = useRef(new Map<string, string>());
+  const previewUrls = useRef(new Set<string>());
+
+  const update = useCallback((key: string, patch: Partial<FilejetUpload>) => {
+    setUploads(uploads => uploads.map(u => (u.key === key ? { ...u, ...patch } : u)));
+  }, []);
+
+  const start = useCallback(
+    async (upload: FilejetUpload) => {
+      const controller = new AbortController();
+      controllers.current.set(upload.key, controller);
+      update(upload.key, { status: 'uploading', error: undefined });
+
+      try {
+        await validateDimensions(upload, optionsRef.current);
+
+        const { fileId } = await uploadClient.upload(upload.file, {
+          signal: controller.signal,
+          uploadId: resumableIds.current.get(upload.key),
+          onProgress: progress => update(upload.key, { progress })
+        });
+
+        const uploaded: FilejetUpload = {
+          ...upload,
+          status: 'uploaded',
+          progress: { loaded: upload.file.size, total: upload.file.size },
+          fileId
+        };
+        update(upload.key, uploaded);
+        resumableIds.current.delete(upload.key);
+        optionsRef.current.onUploaded?.(uploaded);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        if (error instanceof FilejetUploadError && error.uploadId != null) {
+          resumableIds.current.set(upload.key, error.uploadId);
+        }
+
+        const failed: FilejetUpload = { ...upload, status: 'error', error: toError(error) };
+        update(upload.key, { status: 'error', error: failed.error });
+        optionsRef.current.onError?.(failed);
+      } finally {
+        if (controllers.current.get(upload.key) === controller) {
+          controllers.current.delete(upload.key);
+        }
+      }
+    },
+    [uploadClient]
+  );
+
+  // Starts pending uploads while respecting the concurrency limit.
+  useEffect(() => {
+    const concurrency = options.concurrency ?? 3;
+    const running = uploads.filter(u => u.status === 'uploading').length;
+
+    uploads
+      .filter(u => u.status === 'pending' && !controllers.current.has(u.key))
+      .slice(0, Math.max(0, concurrency - running))
+      .forEach(start);
+  }, [uploads, options.concurrency]);
+
+  useEffect(() => {
+    return () => {
+      controllers.current.forEach(controller => controller.abort());
+      previewUrls.current.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const add = useCallback((files: Iterable<File>) => {
+    const added = Array.from(files, file => {
+      const previewUrl = file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined;
+      if (previewUrl != null) previewUrls.current.add(previewUrl);
+
+      const error = validateFile(file, optionsRef.current);
+      const upload: FilejetUpload = {
+        key: `${nextUploadKey++}`,
+        file,
+        status: error != null ? 'error' : 'pending',
+        progress: { loaded: 0, total: file.size },
+        error,
+        previewUrl,
+        fileId: undefined
+      };
+
+      if (error != null) optionsRef.current.onError?.(upload);
+      return upload;
+    });
+
+    setUploads(uploads => [...uploads, ...added]);
+  }, []);
+
+  const cancel = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    controllers.current.delete(key);
+    setUploads(uploads =>
+      uploads.map(u =>
+        u.key === key && (u.status === 'pending' || u.status === 'uploading')
+          ? { ...u, status: 'cancelled' }
+          : u
+      )
+    );
+  }, []);
+
+  const retry = useCallback((key: string) => {
+    setUploads(uploads =>
+      uploads.map(u => {
+        if (u.key !== key || (u.status !== 'error' && u.status !== 'cancelled')) return u;
+
+        // Files rejected by the validation are never sent to the server.
+        const error = validateFile(u.file, optionsRef.current);
+        return error != null
+          ? { ...u, status: 'error', error }
+          : { ...u, status: 'pending', error: undefined };
+      })
+    );
+  }, []);
+
+  const remove = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    controllers.current.delete(key);
+    resumableIds.current.delete(key);
+    setUploads(uploads => {
+      const previewUrl = uploads.find(u => u.key === key)?.previewUrl;
+      if (previewUrl != null) {
+        URL.revokeObjectURL(previewUrl);
+        previewUrls.current.delete(previewUrl);
+      }
+      return uploads.filter(u => u.key !== key);
+    });
+  }, []);
+
+  return { uploads, add, cancel, retry, remove };
+}
+
+export interface FilejetDropzoneState extends FilejetUploadState {
+  /**
+   * Whether the files are being dragged over the root element.
+   */
+  readonly isDragging: boolean;
+
+  /**
+   * Opens the file picker.
+   */
+  readonly open: () => void;
+
+  /**
+   * Props to spread on the root element to handle drag-and-drop and paste.
+   */
+  readonly rootProps: HTMLAttributes<HTMLElement>;
+}
+
+export interface FilejetDropzoneProps extends UseFilejetUploadOptions {
+  /**
+   * Whether multiple files can be selected, dropped or pasted at once.
+   *
+   * @default true
+   */
+  readonly multiple?: boolean;
+
+  /**
+   * Whether the dropzone is disabled.
+   */
+  readonly disabled?: boolean;
+
+  readonly children: (state: FilejetDropzoneState) => ReactNode;
+}
+
+/**
+ * Headless drop zone which uploads files from drag-and-drop, paste and file picker.
+ */
+export function FilejetDropzone(props: FilejetDropzoneProps) {
+  const { children, multiple = true, disabled = false, ...options } = props;
+  const state = useFilejetUpload(options);
+
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const dragDepth = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const addFiles = (files: FileList | File[] | null | undefined) => {
+    if (disabled || files == null || files.length === 0) return;
+    state.add(multiple ? Array.from(files) : [files[0]]);
+  };
+
+  const open = useCallback(() => {
+    if (!disabled) inputRef.current?.click();
+  }, [disabled]);
+
+  const rootProps: HTMLAttributes<HTMLElement> = {
+    tabIndex: 0,
+    'aria-disabled': disabled,
+    onDragEnter: (event: DragEvent) => {
+      event.preventDefault();
+      if (dragDepth.current++ === 0) setIsDragging(true);
+    },
+    onDragOver: (event: DragEvent) => {
+      event.preventDefault();
+    },
+    onDragLeave: (event: DragEvent) => {
+      event.preventDefault();
+      if (--dragDepth.current === 0) setIsDragging(false);
+    },
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      dragDepth.current = 0;
+      setIsDragging(false);
+      addFiles(event.dataTransfer.files);
+    },
+    onPaste: (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData.items)
+        .map(item => (item.kind === 'file' ? item.getAsFile() : null))
+        .filter((file): file is File => file != null);
+
+      if (files.length === 0) return;
+      event.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  return (
+    <>
+      {children({ ...state, isDragging, open, rootProps })}
+      <input
+        type="file"
+        hidden
+        multiple={multiple}
+        accept={options.accept?.join(',')}
+        disabled={disabled}
+        onChange={event => {
+          addFiles(event.currentTarget.files);
+          event.currentTarget.value = ''; // Allows to select the same file again.
+        }}
+        ref={inputRef}
+      />
+    </>
+  );
+}
+
+export interface FilejetUploadPreviewProps extends Omit<ImgProps, 'src'> {
+  readonly upload: FilejetUpload;
+}
+
+/**
+ * Renders the local preview of the upload and switches to the `Img` once the file is uploaded.
+ */
+export const FilejetUploadPreview = memo((props: FilejetUploadPreviewProps) => {
+  const { upload, ...imgProps } = props;
+
+  if (upload.fileId != null) {
+    return <Img {...imgProps} src={upload.fileId} />;
+  }
+
+  return (
+    <img
+      src={upload.previewUrl}
+      className={props.className}
+      style={{ ...props.style, width: props.width, height: props.height, objectFit: props.fit }}
+      alt={props.alt}
+    />
+  );
+});
+
+function validateFile(file: File, options: UseFilejetUploadOptions): Error | undefined {
+  if (options.accept != null && !options.accept.some(type => matchesMimeType(file.type, type))) {
+    return new Error(`File type "${file.type}" is not accepted!`);
+  }
+
+  if (options.maxSize != null && file.size > options.maxSize) {
+    return new Error(`File is larger than ${options.maxSize} bytes!`);
+  }
+
+  return undefined;
+}
+
+async function validateDimensions(upload: FilejetUpload, options: UseFilejetUploadOptions) {
+  const { minDimensions: min, maxDimensions: max } = options;
+  if (min == null && max == null) return;
+
+  if (upload.previewUrl == null) {
+    throw new Error('Dimensions of the file cannot be read!');
+  }
+
+  const { width, height } = await readImageSize(upload.previewUrl);
+
+  if ((min?.width != null && width < min.width) || (min?.height != null && height < min.height)) {
+    throw new Error(`Image ${width}x${height} is smaller than allowed!`);
+  }
+
+  if ((max?.width != null && width > max.width) || (max?.height != null && height > max.height)) {
+    throw new Error(`Image ${width}x${height} is larger than allowed!`);
+  }
+}
+
+function readImageSize(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Dimensions of the file cannot be read!'));
+    image.src = url;
+  });
+}
+
+function matchesMimeType(type: string, pattern: string): boolean {
+  if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+  return type === pattern;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
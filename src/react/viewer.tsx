@@ -0,0 +1,672 @@
+import React, {
+  KeyboardEvent,
+  PointerEvent,
+  memo,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from 'react';
+import { thumbHashToApproximateAspectRatio } from 'thumbhash';
+import { filejetImg } from '../filejetImg';
+import { Mutation, MutationCrop, MutationLike, mutationToString } from '../mutation';
+import { routeFilejetSrc } from '../routing';
+import { useFilejet } from './provider';
+import { useParsedThumbhash } from './thumbhash';
+
+export interface ImgViewerImage {
+  /**
+   * Either the Filejet file ID or URL to the external image.
+   */
+  readonly src: string;
+
+  readonly alt: string;
+
+  readonly thumbhash?: string;
+
+  /**
+   * Additional mutation to apply to the image.
+   */
+  readonly mutation?: MutationLike;
+
+  /**
+   * Dimensions of the original image, if known.
+   *
+   * Otherwise, they are detected once the largest resize is loaded.
+   * Visible regions are cropped only when the dimensions are known.
+   */
+  readonly naturalWidth?: number;
+  readonly naturalHeight?: number;
+}
+
+export interface ImgViewerProps {
+  readonly images: ImgViewerImage[];
+
+  /**
+   * Index of the displayed image. Viewer is closed when `undefined`.
+   */
+  readonly index: number | undefined;
+
+  /**
+   * Called when the user navigates to another image or closes the viewer (with `undefined`).
+   */
+  readonly onIndexChange: (index: number | undefined) => void;
+
+  /**
+   * Element (e.g. the thumbnail `Img`) from which the viewer is opened.
+   *
+   * The image is animated from its rect and the focus is returned to it when the viewer is closed.
+   */
+  readonly origin?: Element | null;
+
+  /**
+   * The maximum zoom relative to the image fitted into the viewport.
+   *
+   * @default 4
+   */
+  readonly maxZoom?: number;
+
+  /**
+   * The maximum size of the longer side of the whole-image resize in pixels.
+   *
+   * Visible regions are cropped from larger resizes.
+   *
+   * @default 4096
+   */
+  readonly maxResize?: number;
+}
+
+/**
+ * Lightbox viewer with the pinch, wheel and double-tap zoom and panning.
+ *
+ * Larger resizes (or crops of the visible region) are requested as the zoom increases,
+ * while the already loaded lower resolution is displayed.
+ *
+ * Keyboard: `Escape` closes, `ArrowLeft`/`ArrowRight` navigate, `+`/`-`/`0` zoom.
+ */
+export const ImgViewer = memo((props: ImgViewerProps) => {
+  const { index, images, onIndexChange } = props;
+
+  // Origin is animated only when the viewer is opened, not while navigating.
+  const [openedIndex, setOpenedIndex] = useState(index);
+  if (index == null && openedIndex != null) setOpenedIndex(undefined);
+  if (index != null && openedIndex == null) setOpenedIndex(index);
+
+  const origin = useRef(props.origin);
+  origin.current = props.origin;
+
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    if (index != null) {
+      wasOpen.current = true;
+      return;
+    }
+
+    if (wasOpen.current && origin.current instanceof HTMLElement) origin.current.focus();
+    wasOpen.current = false;
+  }, [index == null]);
+
+  if (index == null || images[index] == null) return null;
+
+  return (
+    <ViewerStage
+      key={index}
+      image={images[index]}
+      origin={index === openedIndex ? props.origin : undefined}
+      maxZoom={props.maxZoom ?? 4}
+      maxResize={props.maxResize ?? 4096}
+      label={`${index + 1} / ${images.length}`}
+      onClose={() => onIndexChange(undefined)}
+      onNavigate={delta => {
+        const nextIndex = index + delta;
+        if (nextIndex >= 0 && nextIndex < images.length) onIndexChange(nextIndex);
+      }}
+    />
+  );
+});
+
+interface ViewerStageProps {
+  readonly image: ImgViewerImage;
+  readonly origin: Element | null | undefined;
+  readonly maxZoom: number;
+  readonly maxResize: number;
+  readonly label: string;
+  readonly onClose: () => void;
+  readonly onNavigate: (delta: number) => void;
+}
+
+interface Size {
+  readonly width: number;
+  readonly height: number;
+}
+
+interface Transform {
+  readonly zoom: number;
+  readonly x: number;
+  readonly y: number;
+}
+
+/**
+ * Rect relative to the image (0-1).
+ */
+interface Region {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+interface Layer {
+  readonly src: string;
+  readonly region: Region | undefined;
+
+  /**
+   * Requested width of the whole image in pixels.
+   */
+  readonly resolution: number;
+  readonly loaded: boolean;
+}
+
+const identity: Transform = { zoom: 1, x: 0, y: 0 };
+const fullRegion: Region = { x: 0, y: 0, width: 1, height: 1 };
+const doubleTapZoom = 2.5;
+
+const ViewerStage = memo((props: ViewerStageProps) => {
+  const { config, thumbhashDecoder } = useFilejet();
+  const { image, maxZoom, maxResize } = props;
+  const thumbhash = useParsedThumbhash(image.thumbhash);
+
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const viewport = useViewportSize();
+
+  const [transform, setTransform] = useState<Transform>(identity);
+  const [isAnimated, setIsAnimated] = useState(false);
+  const [opening, setOpening] = useState(props.origin != null);
+  const [layers, setLayers] = useState<Layer[]>([]);
+  const [natural, setNatural] = useState<Size | undefined>(() => {
+    if (image.naturalWidth == null || image.naturalHeight == null) return;
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  });
+  const [loadedAspectRatio, setLoadedAspectRatio] = useState<number | undefined>(undefined);
+
+  const aspectRatio =
+    natural != null
+      ? natural.width / natural.height
+      : loadedAspectRatio ??
+        (thumbhash != null ? thumbHashToApproximateAspectRatio(thumbhash.data) : undefined);
+
+  // The image fitted into the viewport at zoom 1.
+  const box: Size = useMemo(() => {
+    if (aspectRatio == null) return viewport;
+    const width = Math.min(viewport.width, viewport.height * aspectRatio);
+    return { width, height: width / aspectRatio };
+  }, [viewport, aspectRatio]);
+
+  // Image with the host outside of the `allowedHosts` renders the error node instead of any resolution.
+  const isRejected = useMemo(() => {
+    const route = routeFilejetSrc(image.src, {
+      filejetDomain: config.domain,
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl
+    });
+    return route.type === 'rejected';
+  }, [
+    image.src,
+    config.domain,
+    config.otherFilejetDomains,
+    config.routes,
+    config.allowedHosts,
+    config.baseUrl
+  ]);
+
+  const [decodedThumbhash, setDecodedThumbhash] = useState(() => {
+    if (thumbhash == null) return;
+    const src = config.ThumbhashImg.cache.get(thumbhash.id);
+    return src != null ? { id: thumbhash.id, src } : undefined;
+  });
+  const placeholder = decodedThumbhash?.id === thumbhash?.id ? decodedThumbhash?.src : undefined;
+
+  useEffect(() => {
+    if (thumbhash == null || placeholder != null) return;
+
+    // The opened image is the only one on the screen, so its placeholder has the highest priority.
+    return thumbhashDecoder.decode(thumbhash, 'high', src => {
+      setDecodedThumbhash({ id: thumbhash.id, src });
+    });
+  }, [thumbhash]);
+
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+
+  const clamp = (next: Transform): Transform => {
+    const zoom = Math.min(maxZoom, Math.max(1, next.zoom));
+    const maxX = Math.max(0, (box.width * zoom - viewport.width) / 2);
+    const maxY = Math.max(0, (box.height * zoom - viewport.height) / 2);
+    return {
+      zoom,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y))
+    };
+  };
+
+  /**
+   * Zooms while the point (in viewport coordinates) stays under the cursor or fingers.
+   */
+  const zoomAt = (from: Transform, zoom: number, point: { x: number; y: number }) => {
+    const localX = (point.x - viewport.width / 2 - from.x) / from.zoom;
+    const localY = (point.y - viewport.height / 2 - from.y) / from.zoom;
+    const nextZoom = Math.min(maxZoom, Math.max(1, zoom));
+
+    return clamp({
+      zoom: nextZoom,
+      x: point.x - viewport.width / 2 - nextZoom * localX,
+      y: point.y - viewport.height / 2 - nextZoom * localY
+    });
+  };
+
+  const center = { x: viewport.width / 2, y: viewport.height / 2 };
+
+  // Animates the image from the origin rect.
+  const openingTransform = useMemo(() => {
+    if (!opening || props.origin == null) return;
+    const rect = props.origin.getBoundingClientRect();
+    const scale = Math.min(rect.width / box.width, rect.height / box.height);
+    return `translate(${rect.left + rect.width / 2 - center.x}px, ${rect.top + rect.height / 2 - center.y}px) scale(${scale})`;
+  }, [opening]);
+
+  useEffect(() => {
+    rootRef.current?.focus();
+    if (!opening) return;
+
+    // Paints the origin transform first, so the transition is visible.
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => {
+        setIsAnimated(true);
+        setOpening(false);
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Wheel listener must not be passive to prevent the page scroll.
+  useEffect(() => {
+    const root = rootRef.current;
+    if (root == null) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setIsAnimated(false);
+      const from = transformRef.current;
+      setTransform(
+        zoomAt(from, from.zoom * Math.exp(-event.deltaY * 0.002), {
+          x: event.clientX,
+          y: event.clientY
+        })
+      );
+    };
+
+    root.addEventListener('wheel', onWheel, { passive: false });
+    return () => root.removeEventListener('wheel', onWheel);
+  });
+
+  const gesture = useRef<{
+    pointers: Map<number, { x: number; y: number }>;
+    start: Transform;
+    startPoint: { x: number; y: number };
+    startDistance: number;
+    moved: boolean;
+    lastTap: { time: number; x: number; y: number } | undefined;
+  }>({
+    pointers: new Map(),
+    start: identity,
+    startPoint: { x: 0, y: 0 },
+    startDistance: 0,
+    moved: false,
+    lastTap: undefined
+  });
+
+  const startGesture = () => {
+    const { pointers } = gesture.current;
+    const points = [...pointers.values()];
+    gesture.current.start = transformRef.current;
+    gesture.current.startPoint = midpoint(points);
+    gesture.current.startDistance = points.length > 1 ? distance(points[0], points[1]) : 0;
+  };
+
+  const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    gesture.current.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (gesture.current.pointers.size === 1) gesture.current.moved = false;
+    setIsAnimated(false);
+    startGesture();
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const { pointers, start, startPoint, startDistance } = gesture.current;
+    if (!pointers.has(event.pointerId)) return;
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const points = [...pointers.values()];
+    const point = midpoint(points);
+    if (distance(point, startPoint) > 8) gesture.current.moved = true;
+
+    if (points.length > 1) {
+      const zoom = start.zoom * (distance(points[0], points[1]) / startDistance);
+      const zoomed = zoomAt(start, zoom, startPoint);
+      setTransform(
+        clamp({
+          ...zoomed,
+          x: zoomed.x + point.x - startPoint.x,
+          y: zoomed.y + point.y - startPoint.y
+        })
+      );
+      return;
+    }
+
+    setTransform(
+      clamp({ ...start, x: start.x + point.x - startPoint.x, y: start.y + point.y - startPoint.y })
+    );
+  };
+
+  const onPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const { pointers } = gesture.current;
+    if (!pointers.delete(event.pointerId)) return;
+
+    if (pointers.size > 0) {
+      startGesture();
+      return;
+    }
+
+    if (gesture.current.moved) return;
+
+    // Double tap (or double click) toggles the zoom.
+    const tap = { time: event.timeStamp, x: event.clientX, y: event.clientY };
+    const lastTap = gesture.current.lastTap;
+    gesture.current.lastTap = tap;
+
+    if (lastTap != null && tap.time - lastTap.time < 300 && distance(tap, lastTap) < 24) {
+      gesture.current.lastTap = undefined;
+      setIsAnimated(true);
+      setTransform(from => (from.zoom > 1 ? identity : zoomAt(from, doubleTapZoom, tap)));
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const zoomBy = (factor: number) => {
+      setIsAnimated(true);
+      setTransform(from => zoomAt(from, from.zoom * factor, center));
+    };
+
+    if (event.key === 'Escape') props.onClose();
+    else if (event.key === 'ArrowLeft') props.onNavigate(-1);
+    else if (event.key === 'ArrowRight') props.onNavigate(1);
+    else if (event.key === '+' || event.key === '=') zoomBy(1.5);
+    else if (event.key === '-') zoomBy(1 / 1.5);
+    else if (event.key === '0') zoomBy(0);
+    else return;
+
+    event.preventDefault();
+  };
+
+  // Requests the resolution matching the zoom once the gesture settles.
+  useEffect(() => {
+    if (isRejected) return;
+
+    const timeout = setTimeout(() => {
+      const dpr = window.devicePixelRatio || 1;
+      const level = 2 ** Math.max(0, Math.ceil(Math.log2(transform.zoom - 0.01)));
+
+      let resolution = Math.round(box.width * level * dpr);
+      if (natural != null) resolution = Math.min(resolution, natural.width);
+      const scale = resolution / box.width;
+      const requested = { width: resolution, height: Math.round(box.height * scale) };
+
+      const fitsMaxResize = Math.max(requested.width, requested.height) <= maxResize;
+
+      if (fitsMaxResize || natural == null) {
+        const limit = fitsMaxResize ? 1 : maxResize / Math.max(requested.width, requested.height);
+        const width = Math.round(requested.width * limit);
+        const height = Math.round(requested.height * limit);
+        addLayer({ src: layerSrc(width, height, undefined), region: undefined, resolution: width });
+        return;
+      }
+
+      const region = expandRegion(visibleRegion(transform, box, viewport), 0.1);
+      const x = Math.round(region.x * requested.width);
+      const y = Math.round(region.y * requested.height);
+      const crop = {
+        x,
+        y,
+        width: Math.max(
+          1,
+          Math.min(Math.round(region.width * requested.width), requested.width - x)
+        ),
+        height: Math.max(
+          1,
+          Math.min(Math.round(region.height * requested.height), requested.height - y)
+        )
+      };
+      addLayer({
+        src: layerSrc(requested.width, requested.height, crop),
+        region: {
+          x: crop.x / requested.width,
+          y: crop.y / requested.height,
+          width: crop.width / requested.width,
+          height: crop.height / requested.height
+        },
+        resolution
+      });
+    }, 150);
+
+    return () => clearTimeout(timeout);
+  }, [transform, box, natural, isRejected]);
+
+  function layerSrc(width: number, height: number, crop: MutationCrop | undefined) {
+    const cropMutation = crop != null ? new Mutation().crop(crop).toString() : undefined;
+
+    return filejetImg({
+      src: image.src,
+      width,
+      height,
+      dpiScale: [1],
+      fit: 'contain',
+      backgroundColor: 'transparent',
+      mutation: [mutationToString(image.mutation), cropMutation].filter(m => m != null).join(','),
+      filejetDomain: config.domain,
+      otherFilejetDomains: config.otherFilejetDomains,
+      routes: config.routes,
+      allowedHosts: config.allowedHosts,
+      baseUrl: config.baseUrl,
+      signer: config.signer
+    }).src;
+  }
+
+  function addLayer(layer: Omit<Layer, 'loaded'>) {
+    setLayers(layers => {
+      if (layers.some(l => l.src === layer.src)) return layers;
+      // Whole image with the same (or higher) resolution is already loaded.
+      if (
+        layer.region == null &&
+        layers.some(l => l.region == null && l.loaded && l.resolution >= layer.resolution)
+      ) {
+        return layers;
+      }
+      return [...layers, { ...layer, loaded: false }];
+    });
+  }
+
+  const onLayerLoad = (layer: Layer, img: HTMLImageElement) => {
+    if (layer.region == null) {
+      setLoadedAspectRatio(img.naturalWidth / img.naturalHeight);
+
+      // Image smaller than requested is the original one.
+      if (natural == null && img.naturalWidth < layer.resolution - 1) {
+        setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+      }
+    }
+
+    setLayers(layers => {
+      const loaded = layers.map(l => (l.src === layer.src ? { ...l, loaded: true } : l));
+
+      // Keeps the pending layers, the best whole image and the latest region.
+      const best = loaded
+        .filter(l => l.region == null && l.loaded)
+        .reduce<
+          Layer | undefined
+        >((a, b) => (a == null || b.resolution > a.resolution ? b : a), undefined);
+      const latestRegion = loaded.filter(l => l.region != null && l.loaded).pop();
+
+      return loaded.filter(l => !l.loaded || l === best || l === latestRegion);
+    });
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.alt}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        overflow: 'hidden',
+        touchAction: 'none',
+        userSelect: 'none',
+        outline: 'none',
+        backgroundColor: opening ? 'rgba(0,0,0,0)' : 'rgba(0,0,0,0.9)',
+        transition: 'background-color 250ms'
+      }}
+      ref={rootRef}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          left: (viewport.width - box.width) / 2,
+          top: (viewport.height - box.height) / 2,
+          width: box.width,
+          height: box.height,
+          transform:
+            openingTransform ??
+            `translate(${transform.x}px, ${transform.y}px) scale(${transform.zoom})`,
+          transition: isAnimated ? 'transform 250ms ease-out' : undefined
+        }}
+      >
+        {placeholder != null && (
+          <img src={placeholder} alt="" style={layerStyle(fullRegion, true)} draggable={false} />
+        )}
+
+        {layers.map(layer => (
+          <img
+            key={layer.src}
+            src={layer.src}
+            alt=""
+            decoding="async"
+            draggable={false}
+            onLoad={event => onLayerLoad(layer, event.currentTarget)}
+            style={layerStyle(layer.region ?? fullRegion, layer.loaded)}
+          />
+        ))}
+
+        {isRejected && (
+          <div style={{ width: '100%', height: '100%', position: 'absolute' }}>
+            {typeof config.Img.errorNode === 'function'
+              ? config.Img.errorNode({ src: image.src, retry: noop })
+              : config.Img.errorNode}
+          </div>
+        )}
+      </div>
+
+      <span aria-live="polite" style={{ position: 'absolute', top: 16, left: 16, color: 'white' }}>
+        {props.label}
+      </span>
+      <button
+        type="button"
+        aria-label="Close"
+        onPointerDown={event => event.stopPropagation()}
+        onClick={props.onClose}
+        style={{ position: 'absolute', top: 16, right: 16 }}
+      >
+        ×
+      </button>
+    </div>
+  );
+});
+
+function noop() {}
+
+function layerStyle(region: Region, visible: boolean): React.CSSProperties {
+  return {
+    position: 'absolute',
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+    objectFit: 'contain',
+    opacity: visible ? 1 : 0,
+    pointerEvents: 'none'
+  };
+}
+
+/**
+ * Returns the part of the image visible in the viewport.
+ */
+function visibleRegion(transform: Transform, box: Size, viewport: Size): Region {
+  // Viewport edges in the image coordinates (0-1).
+  const toImage = (point: number, size: number, boxSize: number, offset: number) =>
+    ((point - size / 2 - offset) / transform.zoom + boxSize / 2) / boxSize;
+
+  const left = Math.max(0, toImage(0, viewport.width, box.width, transform.x));
+  const right = Math.min(1, toImage(viewport.width, viewport.width, box.width, transform.x));
+  const top = Math.max(0, toImage(0, viewport.height, box.height, transform.y));
+  const bottom = Math.min(1, toImage(viewport.height, viewport.height, box.height, transform.y));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function expandRegion(region: Region, margin: number): Region {
+  const x = Math.max(0, region.x - region.width * margin);
+  const y = Math.max(0, region.y - region.height * margin);
+  return {
+    x,
+    y,
+    width: Math.min(1, region.x + region.width * (1 + margin)) - x,
+    height: Math.min(1, region.y + region.height * (1 + margin)) - y
+  };
+}
+
+function useViewportSize(): Size {
+  // The viewer opened during SSR is measured once hydrated.
+  const [size, setSize] = useState<Size>(() =>
+    typeof window !== 'undefined'
+      ? { width: window.innerWidth, height: window.innerHeight }
+      : { width: 0, height: 0 }
+  );
+
+  useEffect(() => {
+    const onResize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+    onResize();
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  return size;
+}
+
+function midpoint(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  if (points.length === 0) return { x: 0, y: 0 };
+  const x = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const y = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  return { x, y };
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
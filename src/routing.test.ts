@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isUrl, routeFilejetSrc } from './routing';
+
+describe('isUrl', () => {
+  it('recognizes URLs with any scheme', () => {
+    expect(isUrl('https://myapp.com/photo.jpg')).toBe(true);
+    expect(isUrl('http://myapp.com/photo.jpg')).toBe(true);
+    expect(isUrl('HTTP://myapp.com/photo.jpg')).toBe(true);
+    expect(isUrl('//myapp.com/photo.jpg')).toBe(true);
+    expect(isUrl('/images/photo.jpg')).toBe(true);
+    expect(isUrl('./photo.jpg')).toBe(true);
+  });
+
+  it('recognizes file IDs', () => {
+    expect(isUrl('KRhBC0tycdeENyP1PQkgBA')).toBe(false);
+    expect(isUrl('eu-KRhBC0tycdeENyP1PQkgBA')).toBe(false);
+  });
+});
+
+describe('routeFilejetSrc', () => {
+  it('rejects the HTTP URL outside of the allowed hosts', () => {
+    expect(
+      routeFilejetSrc('http://evil.com/x.jpg', {
+        filejetDomain: 'cdn.filejet.io',
+        allowedHosts: ['myapp.com']
+      })
+    ).toEqual({ type: 'rejected', host: 'evil.com' });
+  });
+
+  it('proxies the allowed HTTP URL through the Filejet', () => {
+    expect(
+      routeFilejetSrc('http://myapp.com/x.jpg', {
+        filejetDomain: 'cdn.filejet.io',
+        allowedHosts: ['myapp.com']
+      })
+    ).toMatchObject({
+      type: 'filejet',
+      url: expect.stringMatching(/^https:\/\/cdn\.filejet\.io\/@ext_/)
+    });
+  });
+
+  it('resolves the relative URL against the base URL', () => {
+    expect(
+      routeFilejetSrc('/images/x.jpg', {
+        filejetDomain: 'cdn.filejet.io',
+        routes: [{ host: 'myapp.com', action: 'passthrough' }],
+        baseUrl: 'https://myapp.com'
+      })
+    ).toEqual({ type: 'passthrough', url: 'https://myapp.com/images/x.jpg' });
+  });
+
+  it('throws the clear error for the relative URL without the base URL', () => {
+    expect(() =>
+      routeFilejetSrc('/_next/static/media/x.jpg', { filejetDomain: 'cdn.filejet.io' })
+    ).toThrow(
+      'Relative image URL "/_next/static/media/x.jpg" cannot be resolved without the baseUrl!'
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { base64UrlEncode } from './helpers';
+
+/**
+ * How the matched `src` is turned into the image URL.
+ *
+ * - `filejet` - File IDs are served from the `domain`, URLs are proxied through it as `@ext_` files.
+ * - `direct` - URL already points to the Filejet domain, so the mutations are appended to it directly.
+ * - `passthrough` - URL is left untouched without any mutations.
+ *
+ * File IDs are always served from the Filejet, so only the `domain` of their route is used.
+ */
+export type FilejetRouteAction = 'filejet' | 'direct' | 'passthrough';
+
+export interface FilejetRoute {
+  /**
+   * Hostname of the `src` URL. Leading `*.` matches any subdomain.
+   *
+   * @example '*.s3.amazonaws.com'
+   */
+  readonly host?: string;
+
+  /**
+   * Path prefix of the `src` URL.
+   *
+   * @example '/tenants/acme/'
+   */
+  readonly pathPrefix?: string;
+
+  /**
+   * Pattern of the Filejet file ID passed as `src`.
+   *
+   * @example /^eu-/
+   */
+  readonly fileId?: RegExp;
+
+  readonly action: FilejetRouteAction;
+
+  /**
+   * Filejet domain used by the `filejet` action.
+   *
+   * Defaults to the `filejetDomain`.
+   *
+   * @example 'eu.cdn.filejet.io'
+   */
+  readonly domain?: string;
+}
+
+export interface FilejetRoutingOptions {
+  /**
+   * Default Filejet domain.
+   */
+  readonly filejetDomain: string;
+
+  /**
+   * Routing table. The first route matching the `src` is used.
+   *
+   * Every condition (`host`, `pathPrefix`, `fileId`) of the route must match.
+   * `host` and `pathPrefix` match only URLs, `fileId` matches only file IDs.
+   * Unmatched sources use the `filejet` action with the `filejetDomain`.
+   *
+   * @example [{ host: 'eu.cdn.myapp.com', action: 'direct' }, { fileId: /^eu-/, action: 'filejet', domain: 'eu.cdn.myapp.com' }]
+   */
+  readonly routes?: FilejetRoute[];
+
+  /**
+   * Hosts of the external URLs allowed to be rendered. Leading `*.` matches any subdomain.
+   *
+   * URLs with other hosts are rejected, except for the ones routed `direct` to the Filejet.
+   * All hosts are allowed when omitted.
+   *
+   * @example ['myapp.com', '*.myapp.com']
+   */
+  readonly allowedHosts?: string[];
+
+  /**
+   * @deprecated Use `routes` with the `direct` action instead.
+   */
+  readonly otherFilejetDomains?: string[];
+
+  /**
+   * Base URL used to resolve relative `src` URLs.
+   *
+   * @default document.baseURI
+   */
+  readonly baseUrl?: string;
+}
+
+export type FilejetRoutedSrc =
+  | {
+      readonly type: 'filejet' | 'direct' | 'passthrough';
+
+      /**
+       * URL of the image without the mutations and the trailing slash.
+       */
+      readonly url: string;
+    }
+  | { readonly type: 'rejected'; readonly host: string };
+
+/**
+ * Resolves how the `src` (file ID or URL) is served according to the routing table.
+ */
+export function routeFilejetSrc(src: string, options: FilejetRoutingOptions): FilejetRoutedSrc {
+  const routes = [
+    ...(options.routes ?? []),
+    ...(options.otherFilejetDomains ?? []).map((host): FilejetRoute => ({ host, action: 'direct' }))
+  ];
+
+  if (!isUrl(src)) {
+    const route = routes.find(route => matchesFileId(route, src));
+    return { type: 'filejet', url: `https://${route?.domain ?? options.filejetDomain}/${src}` };
+  }
+
+  const url = resolveUrl(src, options.baseUrl ?? globalThis.document?.baseURI);
+  const route = routes.find(route => matchesUrl(route, url));
+  const action = route?.action ?? 'filejet';
+
+  if (action === 'direct') {
+    return { type: 'direct', url: url.href.replace(/\/$/, '') };
+  }
+
+  if (options.allowedHosts != null && !options.allowedHosts.some(h => matchesHost(url, h))) {
+    return { type: 'rejected', host: url.hostname };
+  }
+
+  if (action === 'passthrough') {
+    return { type: 'passthrough', url: url.href };
+  }
+
+  const externalId = `@ext_${base64UrlEncode(url.href)}`;
+  return {
+    type: 'filejet',
+    url: `https://${route?.domain ?? options.filejetDomain}/${externalId}`
+  };
+}
+
+/**
+ * Returns all Filejet domains the routing table can generate URLs for.
+ */
+export function routedFilejetDomains(
+  options: Omit<FilejetRoutingOptions, 'filejetDomain'>
+): string[] {
+  return [
+    ...(options.otherFilejetDomains ?? []),
+    ...(options.routes ?? []).flatMap(route => {
+      if (route.action === 'filejet') return route.domain != null ? [route.domain] : [];
+      if (route.action === 'direct') return route.host != null ? [route.host] : [];
+      return [];
+    })
+  ];
+}
+
+export function matchesHost(url: URL, pattern: string): boolean {
+  if (pattern.startsWith('*.')) return url.hostname.endsWith(pattern.slice(1));
+  return url.hostname === pattern || url.host === pattern;
+}
+
+/**
+ * Returns true for URLs, false for Filejet file IDs.
+ *
+ * Any absolute scheme (e.g. `http:`) is a URL, so it cannot bypass the `allowedHosts`.
+ */
+export function isUrl(src: string): boolean {
+  return (
+    /^[a-z][a-z\d+.-]*:/i.test(src) || ['./', '../', '/'].some(prefix => src.startsWith(prefix))
+  );
+}
+
+/**
+ * There is no `document` on the server (e.g. in the Next.js loader), so relative URLs need the `baseUrl`.
+ */
+function resolveUrl(src: string, baseUrl: string | undefined): URL {
+  try {
+    return new URL(src, baseUrl);
+  } catch {
+    throw new Error(
+      baseUrl == null
+        ? `Relative image URL "${src}" cannot be resolved without the baseUrl!`
+        : `Invalid image URL "${src}"!`
+    );
+  }
+}
+
+function matchesFileId(route: FilejetRoute, id: string): boolean {
+  if (route.host != null || route.pathPrefix != null) return false;
+  return route.fileId == null || route.fileId.test(id);
+}
+
+function matchesUrl(route: FilejetRoute, url: URL): boolean {
+  if (route.fileId != null) return false;
+  if (route.host != null && !matchesHost(url, route.host)) return false;
+  return route.pathPrefix == null || url.pathname.startsWith(route.pathPrefix);
+}
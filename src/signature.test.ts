@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { signFilejetUrl, verifyFilejetUrl } from './signature';
+
+const secret = 'secret';
+const url = 'https://cdn.filejet.io/KRhBC0tycdeENyP1PQkgBA/resize_200x100min,auto';
+const expiresAt = new Date('2030-01-01T00:00:00Z');
+
+describe('signFilejetUrl', () => {
+  it('signs the URL which can be verified', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret, expiresAt });
+
+    expect(new URL(signedUrl).searchParams.get('exp')).toBe(`${expiresAt.getTime() / 1000}`);
+    expect(await verifyFilejetUrl(signedUrl, { secret, now: new Date('2029-01-01') })).toEqual({
+      valid: true
+    });
+  });
+
+  it('keeps the signature valid on the other domain', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret });
+
+    expect(
+      await verifyFilejetUrl(signedUrl.replace('cdn.filejet.io', 'images.myapp.com'), { secret })
+    ).toEqual({ valid: true });
+  });
+});
+
+describe('verifyFilejetUrl', () => {
+  it('rejects the URL without the signature', async () => {
+    expect(await verifyFilejetUrl(url, { secret })).toEqual({
+      valid: false,
+      reason: 'missing-signature'
+    });
+  });
+
+  it('rejects the URL signed by another secret', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret: 'other' });
+
+    expect(await verifyFilejetUrl(signedUrl, { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+  });
+
+  it('rejects the tampered path', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret });
+
+    expect(await verifyFilejetUrl(signedUrl.replace('200x100', '2000x1000'), { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+  });
+
+  it('rejects the tampered expiration', async () => {
+    const signedUrl = new URL(await signFilejetUrl(url, { secret, expiresAt }));
+    signedUrl.searchParams.set('exp', `${expiresAt.getTime() / 1000 + 3600}`);
+
+    expect(await verifyFilejetUrl(signedUrl.href, { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+  });
+
+  it('rejects the expired URL', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret, expiresAt });
+
+    expect(await verifyFilejetUrl(signedUrl, { secret, now: expiresAt })).toEqual({
+      valid: false,
+      reason: 'expired'
+    });
+  });
+
+  it('rejects the extra query parameters', async () => {
+    const signedUrl = await signFilejetUrl(url, { secret, expiresAt });
+
+    expect(await verifyFilejetUrl(`${signedUrl}&download=1`, { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+  });
+
+  it('rejects the duplicated signature or expiration', async () => {
+    const signedUrl = new URL(await signFilejetUrl(url, { secret, expiresAt }));
+    const signature = signedUrl.searchParams.get('sig')!;
+
+    expect(await verifyFilejetUrl(`${signedUrl}&sig=${signature}`, { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+    expect(await verifyFilejetUrl(`${signedUrl}&exp=9999999999`, { secret })).toEqual({
+      valid: false,
+      reason: 'invalid-signature'
+    });
+  });
+
+  it('verifies the query parameters signed with the URL', async () => {
+    const signedUrl = await signFilejetUrl(`${url}?download=1`, { secret });
+
+    expect(await verifyFilejetUrl(signedUrl, { secret })).toEqual({ valid: true });
+    expect(
+      await verifyFilejetUrl(signedUrl.replace('download=1', 'download=0'), { secret })
+    ).toEqual({ valid: false, reason: 'invalid-signature' });
+  });
+});
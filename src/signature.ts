@@ -0,0 +1,142 @@
+import { filejetImg, FilejetImgProps } from './filejetImg';
+import { base64UrlDecode, base64UrlEncode } from './helpers';
+
+export interface SignFilejetUrlOptions {
+  /**
+   * HMAC secret shared with the verifier.
+   *
+   * Use only on the server – never expose the secret to the client!
+   */
+  readonly secret: string;
+
+  /**
+   * Expiration of the signed URL.
+   *
+   * URL never expires when omitted.
+   */
+  readonly expiresAt?: Date;
+}
+
+export interface VerifyFilejetUrlOptions {
+  /**
+   * HMAC secret shared with the signer.
+   */
+  readonly secret: string;
+
+  /**
+   * Current time used to check the expiration.
+   *
+   * @default new Date()
+   */
+  readonly now?: Date;
+}
+
+export type VerifyFilejetUrlResult =
+  | { readonly valid: true }
+  | {
+      readonly valid: false;
+      readonly reason: 'missing-signature' | 'invalid-signature' | 'expired';
+    };
+
+/**
+ * Signs the file ID and mutation of the Filejet URL with HMAC-SHA256.
+ *
+ * Signature (and the expiration) is appended as `sig` (and `exp`) query parameters.
+ */
+export async function signFilejetUrl(url: string, options: SignFilejetUrlOptions): Promise<string> {
+  const signedUrl = new URL(url);
+  signedUrl.searchParams.delete('sig');
+  signedUrl.searchParams.delete('exp');
+
+  if (options.expiresAt != null) {
+    signedUrl.searchParams.set('exp', `${Math.floor(options.expiresAt.getTime() / 1000)}`);
+  }
+
+  const key = await importKey(options.secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, signedPayload(signedUrl));
+  signedUrl.searchParams.set(
+    'sig',
+    base64UrlEncode(String.fromCharCode(...new Uint8Array(signature)))
+  );
+
+  return signedUrl.href;
+}
+
+/**
+ * Verifies the signature and expiration of the Filejet URL signed by `signFilejetUrl`.
+ *
+ * Runs in any runtime with Web Crypto API (browsers, Node.js, edge runtimes).
+ */
+export async function verifyFilejetUrl(
+  url: string,
+  options: VerifyFilejetUrlOptions
+): Promise<VerifyFilejetUrlResult> {
+  const signedUrl = new URL(url);
+  const signatures = signedUrl.searchParams.getAll('sig');
+  if (signatures.length === 0) return { valid: false, reason: 'missing-signature' };
+
+  // Duplicated parameters could be read differently by the verifier and the server.
+  if (signatures.length > 1 || signedUrl.searchParams.getAll('exp').length > 1) {
+    return { valid: false, reason: 'invalid-signature' };
+  }
+
+  const [signature] = signatures;
+  signedUrl.searchParams.delete('sig');
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = Uint8Array.from(base64UrlDecode(signature), c => c.charCodeAt(0));
+  } catch {
+    return { valid: false, reason: 'invalid-signature' };
+  }
+
+  const key = await importKey(options.secret, 'verify');
+  const valid = await crypto.subtle.verify('HMAC', key, signatureBytes, signedPayload(signedUrl));
+  if (!valid) return { valid: false, reason: 'invalid-signature' };
+
+  const expiration = signedUrl.searchParams.get('exp');
+  const now = options.now ?? new Date();
+  if (expiration != null && Number(expiration) * 1000 <= now.getTime()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Precomputes the signed URLs for all `src` and `srcSet` candidates of the image.
+ *
+ * Returned object can be passed as `signer` into `filejetImg` or `Img` with the same props.
+ */
+export async function signFilejetImg(
+  props: Omit<FilejetImgProps, 'signer'>,
+  options: SignFilejetUrlOptions
+): Promise<Record<string, string>> {
+  const { src, srcSet } = filejetImg(props);
+  const urls = [src, ...(srcSet?.split(', ').map(candidate => candidate.split(' ')[0]) ?? [])];
+
+  const signedUrls: Record<string, string> = {};
+  for (const url of new Set(urls)) {
+    signedUrls[url] = await signFilejetUrl(url, options);
+  }
+  return signedUrls;
+}
+
+/**
+ * Signature covers the file ID, mutation, expiration and any other query parameter, but not the domain,
+ * so the signed URLs remain valid behind the proxy.
+ */
+function signedPayload(url: URL): Uint8Array {
+  const query = url.searchParams.toString();
+  return new TextEncoder().encode(query !== '' ? `${url.pathname}?${query}` : url.pathname);
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
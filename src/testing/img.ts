@@ -0,0 +1,89 @@
+import { act } from 'react';
+import { getObserverShims } from './shims';
+
+/**
+ * Simulates the successful load of the image rendered by the `Img` (or `Gallery` tile).
+ *
+ * Accepts either the `<img />` element or any of its ancestors, e.g. the `Img` wrapper.
+ *
+ * @example await loadImg(screen.getByLabelText('Photo'));
+ */
+export async function loadImg(element: Element): Promise<void> {
+  const img = findImage(element);
+
+  // Test environments do not decode images.
+  const decoded = Promise.resolve();
+  img.decode = () => decoded;
+  Object.defineProperty(img, 'complete', { configurable: true, value: true });
+
+  await act(async () => {
+    img.dispatchEvent(new Event('load'));
+    await decoded;
+  });
+}
+
+/**
+ * Simulates the failed load of the image rendered by the `Img` (or `Gallery` tile).
+ *
+ * Each call fails the current attempt, so the retries and fallback sources are used first.
+ */
+export async function failImg(element: Element): Promise<void> {
+  const img = findImage(element);
+
+  await act(async () => {
+    img.dispatchEvent(new Event('error'));
+  });
+}
+
+/**
+ * Decodes the thumbhash placeholder of the `Img` which is not loaded yet
+ * and returns its `<img />` element.
+ *
+ * Must be called before the next frame after the render, e.g. right after the `render()`.
+ * Thumbhashes outside of the viewport are decoded only with the `installObserverShims`.
+ */
+export async function decodeThumbhash(element: Element): Promise<HTMLImageElement> {
+  // Test environments may report the image as complete, which would skip the thumbhash.
+  const img = element.querySelector('img[alt=""]');
+  if (img != null) Object.defineProperty(img, 'complete', { configurable: true, value: false });
+
+  // Thumbhash is decoded in the next frame, or once it intersects with the viewport.
+  await act(() => nextFrame());
+
+  const thumbhash = findThumbhash(element);
+  if (thumbhash.getAttribute('src') == null) {
+    getObserverShims()?.intersect(thumbhash);
+    // Low priority thumbhashes are decoded in the idle callback.
+    await act(() => nextFrame());
+  }
+
+  if (thumbhash.getAttribute('src') == null) {
+    throw new Error('Thumbhash of the image was not decoded!');
+  }
+
+  return thumbhash;
+}
+
+/**
+ * Images are rendered with the empty alt, the accessible name is on their wrapper.
+ */
+function findImage(element: Element): HTMLImageElement {
+  if (element instanceof HTMLImageElement) return element;
+
+  const img = element.querySelector('img[alt=""]');
+  if (img == null) throw new Error('Image is not rendered!');
+  return img as HTMLImageElement;
+}
+
+/**
+ * Thumbhash placeholders are rendered without the alt.
+ */
+function findThumbhash(element: Element): HTMLImageElement {
+  const img = element.querySelector('img:not([alt])');
+  if (img == null) throw new Error('Thumbhash of the image is not rendered!');
+  return img as HTMLImageElement;
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve)));
+}
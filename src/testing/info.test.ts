@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { FilejetInfoClient } from '../info';
+import { createFilejetInfoMock } from './info';
+
+describe('createFilejetInfoMock', () => {
+  it('serves the info of the known files and records the requests', async () => {
+    const file = { id: 'abc', width: 800, height: 600, format: 'jpeg', size: 1024 };
+    const infoMock = createFilejetInfoMock([file]);
+    const client = new FilejetInfoClient({ domain: 'cdn.filejet.test', fetch: infoMock.fetch });
+
+    const [abc, missing] = await Promise.all([client.get('abc'), client.get('missing')]);
+
+    expect(abc).toEqual(file);
+    expect(missing).toBeUndefined();
+    expect(client.peek('missing')).toBeNull();
+    expect(infoMock.requests).toEqual([['abc', 'missing']]);
+  });
+});
@@ -0,0 +1,39 @@
+import type { FilejetFileInfo } from '../info';
+
+export interface FilejetInfoMock {
+  /**
+   * `fetch` implementation serving the info endpoint, pass it into the `info` config.
+   */
+  readonly fetch: typeof fetch;
+
+  /**
+   * File IDs of every request made through the mock.
+   */
+  readonly requests: string[][];
+}
+
+/**
+ * Serves the info of the given files without the network. Unknown file IDs are reported as missing.
+ *
+ * @example
+ * const infoMock = createFilejetInfoMock([{ id: 'abc', width: 800, height: 600, format: 'jpeg', size: 1024 }]);
+ * createTestFilejet({ info: { fetch: infoMock.fetch }, Img: { fetchInfo: true } });
+ */
+export function createFilejetInfoMock(files: FilejetFileInfo[]): FilejetInfoMock {
+  const requests: string[][] = [];
+
+  const mockFetch = async (input: RequestInfo | URL): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const ids = url.searchParams.get('ids')?.split(',') ?? [];
+    requests.push(ids);
+
+    const body = Object.fromEntries(
+      ids.map(id => [id, files.find(file => file.id === id) ?? null])
+    );
+    return new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+
+  return { fetch: mockFetch as typeof fetch, requests };
+}
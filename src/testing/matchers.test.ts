@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { filejetImg } from '../filejetImg';
+import { mutation } from '../mutation';
+import {
+  assertFilejetSrcSet,
+  assertFilejetUrl,
+  filejetMatchers,
+  FilejetMatchers,
+  matchFilejetSrcSet,
+  matchFilejetUrl
+} from './matchers';
+
+declare module 'vitest' {
+  interface Assertion<T> extends FilejetMatchers<T> {}
+}
+
+expect.extend(filejetMatchers);
+
+const attributes = filejetImg({
+  src: 'abc',
+  width: 100,
+  height: 50,
+  fit: 'cover',
+  dpiScale: [1, 2],
+  backgroundColor: 'transparent',
+  mutation: mutation().grayscale(),
+  filejetDomain: 'cdn.filejet.test'
+});
+
+describe('matchFilejetUrl', () => {
+  it('matches the URL generated by filejetImg', () => {
+    expect(
+      matchFilejetUrl(attributes.src, {
+        src: 'abc',
+        domain: 'cdn.filejet.test',
+        width: 100,
+        height: 50,
+        fit: 'cover',
+        mutation: 'grayscale'
+      })
+    ).toBeUndefined();
+  });
+
+  it('describes the mismatches', () => {
+    expect(matchFilejetUrl(attributes.src, { src: 'def', width: 200, mutation: null })).toBe(
+      `"${attributes.src}": src is "abc" instead of "def", width is 100 instead of 200, mutation is "grayscale" instead of ""`
+    );
+    expect(matchFilejetUrl('abc', {})).toBe('"abc" is not a Filejet URL');
+  });
+});
+
+describe('matchFilejetSrcSet', () => {
+  it('scales the density candidates', () => {
+    expect(
+      matchFilejetSrcSet(attributes.srcSet!, { width: 100, height: 50, descriptors: ['1x', '2x'] })
+    ).toBeUndefined();
+  });
+
+  it('describes the mismatching candidate', () => {
+    expect(matchFilejetSrcSet(attributes.srcSet!, { descriptors: ['1x'] })).toBe(
+      'descriptors are 1x, 2x instead of 1x'
+    );
+    expect(matchFilejetSrcSet(attributes.srcSet!, { width: 50 })).toMatch(
+      /^1x candidate ".+": width is 100 instead of 50$/
+    );
+    expect(matchFilejetSrcSet('', {})).toBe('srcSet is empty');
+  });
+});
+
+describe('assertions', () => {
+  it('throws on the mismatch', () => {
+    expect(() => assertFilejetUrl(attributes.src, { width: 100 })).not.toThrow();
+    expect(() => assertFilejetUrl(attributes.src, { width: 10 })).toThrow(
+      'Filejet URL does not match!'
+    );
+    expect(() => assertFilejetSrcSet(attributes.srcSet!, { fit: 'contain' })).toThrow(
+      'Filejet srcSet does not match!'
+    );
+  });
+});
+
+describe('filejetMatchers', () => {
+  it('matches the result of filejetImg', () => {
+    expect(attributes).toMatchFilejetSrc({ src: 'abc', width: 100, height: 50 });
+    expect(attributes).toMatchFilejetSrcSet({ width: 100, height: 50, mutation: 'grayscale' });
+    expect(attributes).not.toMatchFilejetSrc({ src: 'def' });
+  });
+
+  it('reports the missing attribute', () => {
+    expect(() => expect({}).toMatchFilejetSrcSet({})).toThrow('srcSet is missing');
+  });
+});
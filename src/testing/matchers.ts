@@ -0,0 +1,200 @@
+import type { ImgObjectFit } from '../filejetImg';
+import { MutationLike, mutationToString } from '../mutation';
+import { parseFilejetUrl } from '../parseFilejetUrl';
+
+export interface FilejetUrlExpectation {
+  /**
+   * Either the Filejet file ID or URL to the external image.
+   */
+  readonly src?: string;
+
+  /**
+   * @example 'cdn.filejet.test'
+   */
+  readonly domain?: string;
+
+  /**
+   * Width of the 1x image in pixels.
+   */
+  readonly width?: number;
+
+  /**
+   * Height of the 1x image in pixels.
+   */
+  readonly height?: number;
+
+  readonly fit?: ImgObjectFit;
+
+  /**
+   * The exact additional mutation, without the resize generated by `filejetImg`.
+   *
+   * Use `null` to assert there is no additional mutation.
+   *
+   * @example mutation().grayscale()
+   */
+  readonly mutation?: MutationLike | null;
+}
+
+export interface FilejetSrcSetExpectation extends FilejetUrlExpectation {
+  /**
+   * Descriptors of all candidates, in order.
+   *
+   * @example ['1x', '2x']
+   */
+  readonly descriptors?: string[];
+}
+
+/**
+ * Returns the description of the first mismatch, or `undefined` when the URL matches.
+ *
+ * Width and height are multiplied by the `scale`, e.g. for the `2x` candidates.
+ */
+export function matchFilejetUrl(
+  url: string,
+  expected: FilejetUrlExpectation,
+  scale = 1
+): string | undefined {
+  const descriptor = parseFilejetUrl(url);
+  if (descriptor == null) return `"${url}" is not a Filejet URL`;
+
+  const mismatches: string[] = [];
+  const check = (name: string, actual: unknown, expectedValue: unknown) => {
+    if (expectedValue !== undefined && actual !== expectedValue) {
+      mismatches.push(
+        `${name} is ${JSON.stringify(actual)} instead of ${JSON.stringify(expectedValue)}`
+      );
+    }
+  };
+
+  check('src', descriptor.src, expected.src);
+  check('domain', descriptor.domain, expected.domain);
+  check('width', descriptor.resize?.width, scaled(expected.width, scale));
+  check('height', descriptor.resize?.height, scaled(expected.height, scale));
+  check('fit', descriptor.resize?.fit, expected.fit);
+  if (expected.mutation !== undefined) {
+    check(
+      'mutation',
+      descriptor.mutation ?? '',
+      mutationToString(expected.mutation ?? undefined) ?? ''
+    );
+  }
+
+  return mismatches.length > 0 ? `"${url}": ${mismatches.join(', ')}` : undefined;
+}
+
+/**
+ * Returns the description of the first mismatching candidate, or `undefined` when all candidates match.
+ *
+ * Sizes of the density (`2x`) candidates are scaled. Width (`640w`) candidates are checked only for their width.
+ */
+export function matchFilejetSrcSet(
+  srcSet: string,
+  expected: FilejetSrcSetExpectation
+): string | undefined {
+  const candidates = srcSet
+    .split(', ')
+    .filter(candidate => candidate !== '')
+    .map(candidate => {
+      const [url, descriptor = '1x'] = candidate.trim().split(' ');
+      return { url, descriptor };
+    });
+
+  if (candidates.length === 0) return 'srcSet is empty';
+
+  if (expected.descriptors != null) {
+    const descriptors = candidates.map(candidate => candidate.descriptor);
+    if (descriptors.join(' ') !== expected.descriptors.join(' ')) {
+      return `descriptors are ${descriptors.join(', ')} instead of ${expected.descriptors.join(', ')}`;
+    }
+  }
+
+  for (const { url, descriptor } of candidates) {
+    const value = parseFloat(descriptor);
+    const mismatch = descriptor.endsWith('w')
+      ? matchFilejetUrl(url, { ...expected, width: value, height: undefined })
+      : matchFilejetUrl(url, expected, value);
+    if (mismatch != null) return `${descriptor} candidate ${mismatch}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Throws when the URL does not match the expectation.
+ */
+export function assertFilejetUrl(url: string, expected: FilejetUrlExpectation): void {
+  const mismatch = matchFilejetUrl(url, expected);
+  if (mismatch != null) throw new Error(`Filejet URL does not match! ${mismatch}`);
+}
+
+/**
+ * Throws when any candidate of the srcSet does not match the expectation.
+ */
+export function assertFilejetSrcSet(srcSet: string, expected: FilejetSrcSetExpectation): void {
+  const mismatch = matchFilejetSrcSet(srcSet, expected);
+  if (mismatch != null) throw new Error(`Filejet srcSet does not match! ${mismatch}`);
+}
+
+/**
+ * Either the URL, `<img />`/`<source />` element or the result of the `filejetImg`.
+ */
+export type FilejetMatcherReceived =
+  | string
+  | Element
+  | { readonly src?: string; readonly srcSet?: string };
+
+/**
+ * Types of the `filejetMatchers` to augment the assertion interface of the test framework.
+ *
+ * @example declare module 'vitest' { interface Assertion<T> extends FilejetMatchers<T> {} }
+ */
+export interface FilejetMatchers<R = unknown> {
+  toMatchFilejetSrc(expected: FilejetUrlExpectation): R;
+  toMatchFilejetSrcSet(expected: FilejetSrcSetExpectation): R;
+}
+
+interface MatcherResult {
+  readonly pass: boolean;
+  readonly message: () => string;
+}
+
+/**
+ * Matchers for the `expect.extend` of Jest and Vitest.
+ *
+ * @example expect.extend(filejetMatchers); expect(img).toMatchFilejetSrc({ src: 'abc', width: 100 });
+ */
+export const filejetMatchers = {
+  toMatchFilejetSrc(received: FilejetMatcherReceived, expected: FilejetUrlExpectation) {
+    const src = readAttribute(received, 'src');
+    const mismatch = src != null ? matchFilejetUrl(src, expected) : 'src is missing';
+    return matcherResult(mismatch, `Expected "${src}" not to match the Filejet URL`);
+  },
+
+  toMatchFilejetSrcSet(received: FilejetMatcherReceived, expected: FilejetSrcSetExpectation) {
+    const srcSet = readAttribute(received, 'srcSet');
+    const mismatch = srcSet != null ? matchFilejetSrcSet(srcSet, expected) : 'srcSet is missing';
+    return matcherResult(mismatch, `Expected "${srcSet}" not to match the Filejet srcSet`);
+  }
+};
+
+function matcherResult(mismatch: string | undefined, negatedMessage: string): MatcherResult {
+  return {
+    pass: mismatch == null,
+    message: () => mismatch ?? negatedMessage
+  };
+}
+
+function readAttribute(
+  received: FilejetMatcherReceived,
+  name: 'src' | 'srcSet'
+): string | undefined {
+  if (typeof received === 'string') return received;
+  if (typeof Element !== 'undefined' && received instanceof Element) {
+    return received.getAttribute(name.toLowerCase()) ?? undefined;
+  }
+  return (received as { src?: string; srcSet?: string })[name];
+}
+
+function scaled(value: number | undefined, scale: number): number | undefined {
+  return value != null ? Math.round(value * scale) : undefined;
+}
@@ -0,0 +1,61 @@
+import React, { ReactNode, useState } from 'react';
+import { LruCache } from '../react/cache';
+import { Filejet, FilejetConfigOverrides } from '../react/filejet';
+import { FilejetProvider } from '../react/provider';
+
+/**
+ * Filejet domain used by the test provider.
+ */
+export const testFilejetDomain = 'cdn.filejet.test';
+
+export type FilejetTestConfig = FilejetConfigOverrides;
+
+/**
+ * Creates the `Filejet` with the complete configuration suitable for tests.
+ *
+ * Placeholder and error nodes are rendered as `<span data-filejet-test="placeholder" />`
+ * and `<span data-filejet-test="error" />`, so they can be queried.
+ *
+ * @example createTestFilejet({ Img: { dpiScale: [1] } })
+ */
+export function createTestFilejet(config: FilejetTestConfig = {}): Filejet {
+  const filejet = new Filejet({
+    domain: testFilejetDomain,
+    Img: {
+      dpiScale: [1, 2],
+      placeholderNode: <span data-filejet-test="placeholder" />,
+      errorNode: <span data-filejet-test="error" />
+    },
+    ThumbhashImg: {
+      cache: new LruCache({ maxSize: 100 }),
+      intersectRootMargin: 0,
+      workers: 0
+    }
+  });
+
+  return filejet.extend(config);
+}
+
+export interface FilejetTestProviderProps {
+  /**
+   * Overrides of the test configuration. Read only once, when the provider is mounted.
+   */
+  readonly config?: FilejetTestConfig;
+
+  /**
+   * The `Filejet` to provide instead of the one created from the `config`.
+   */
+  readonly filejet?: Filejet;
+
+  readonly children: ReactNode;
+}
+
+/**
+ * Provides the preconfigured `Filejet` to the tested components.
+ *
+ * @example render(<Img src="abc" width={100} height={100} fit="cover" alt="" />, { wrapper: FilejetTestProvider })
+ */
+export function FilejetTestProvider(props: FilejetTestProviderProps) {
+  const [filejet] = useState(() => props.filejet ?? createTestFilejet(props.config));
+  return <FilejetProvider filejet={props.filejet ?? filejet}>{props.children}</FilejetProvider>;
+}
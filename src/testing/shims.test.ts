@@ -0,0 +1,64 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getObserverShims, installObserverShims } from './shims';
+
+describe('installObserverShims', () => {
+  const originalIntersectionObserver = globalThis.IntersectionObserver;
+
+  afterEach(() => {
+    getObserverShims()?.restore();
+  });
+
+  it('notifies the intersection observers of the element', () => {
+    const shims = installObserverShims();
+    const element = document.createElement('div');
+    const other = document.createElement('div');
+    const callback = vi.fn();
+
+    new IntersectionObserver(callback).observe(element);
+    shims.intersect(other);
+    shims.intersect(element);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0]).toMatchObject([{ target: element, isIntersecting: true }]);
+  });
+
+  it('resizes the element and notifies its resize observers', () => {
+    const shims = installObserverShims();
+    const element = document.createElement('div');
+    const callback = vi.fn();
+
+    const observer = new ResizeObserver(callback);
+    observer.observe(element);
+    shims.resize(element, { width: 300, height: 200 });
+    observer.disconnect();
+    shims.resize(element, { width: 400, height: 200 });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0]).toMatchObject([
+      { target: element, contentBoxSize: [{ inlineSize: 300, blockSize: 200 }] }
+    ]);
+    expect(element.clientWidth).toBe(400);
+  });
+
+  it('runs the idle callbacks in the next macrotask', async () => {
+    installObserverShims();
+    const callback = vi.fn();
+
+    requestIdleCallback(callback);
+    expect(callback).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve));
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ didTimeout: false }));
+  });
+
+  it('restores the original globals', () => {
+    const shims = installObserverShims();
+    expect(globalThis.IntersectionObserver).not.toBe(originalIntersectionObserver);
+
+    shims.restore();
+
+    expect(globalThis.IntersectionObserver).toBe(originalIntersectionObserver);
+    expect(getObserverShims()).toBeUndefined();
+  });
+});
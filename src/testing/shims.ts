@@ -0,0 +1,195 @@
+import { act } from 'react';
+
+export interface FilejetObserverShims {
+  /**
+   * Notifies the intersection observers of the element.
+   */
+  intersect(element: Element, isIntersecting?: boolean): void;
+
+  /**
+   * Sets the `clientWidth`/`clientHeight` of the element and notifies its resize observers.
+   */
+  resize(element: Element, size: { width: number; height: number }): void;
+
+  /**
+   * Restores the original globals.
+   */
+  restore(): void;
+}
+
+let activeShims: FilejetObserverShims | undefined;
+
+/**
+ * Returns the currently installed shims, if any.
+ */
+export function getObserverShims(): FilejetObserverShims | undefined {
+  return activeShims;
+}
+
+/**
+ * Replaces the `IntersectionObserver`, `ResizeObserver` and `requestIdleCallback` globals
+ * (and `requestAnimationFrame` when missing) with the shims controlled by the test.
+ *
+ * Observers are never notified on their own. Idle callbacks and frames run in the next macrotask.
+ *
+ * @example
+ * const shims = installObserverShims();
+ * afterEach(() => shims.restore());
+ */
+export function installObserverShims(): FilejetObserverShims {
+  activeShims?.restore();
+
+  const originals = {
+    IntersectionObserver: globalThis.IntersectionObserver,
+    ResizeObserver: globalThis.ResizeObserver,
+    requestIdleCallback: globalThis.requestIdleCallback,
+    cancelIdleCallback: globalThis.cancelIdleCallback,
+    requestAnimationFrame: globalThis.requestAnimationFrame,
+    cancelAnimationFrame: globalThis.cancelAnimationFrame
+  };
+
+  const intersectionObservers = new Set<IntersectionObserverShim>();
+  const resizeObservers = new Set<ResizeObserverShim>();
+
+  class IntersectionObserverShim {
+    readonly root = null;
+    readonly rootMargin: string;
+    readonly thresholds = [0];
+    readonly elements = new Set<Element>();
+
+    constructor(
+      readonly callback: IntersectionObserverCallback,
+      options?: IntersectionObserverInit
+    ) {
+      this.rootMargin = options?.rootMargin ?? '0px';
+    }
+
+    observe(element: Element) {
+      this.elements.add(element);
+      intersectionObservers.add(this);
+    }
+
+    unobserve(element: Element) {
+      this.elements.delete(element);
+    }
+
+    disconnect() {
+      this.elements.clear();
+      intersectionObservers.delete(this);
+    }
+
+    takeRecords(): IntersectionObserverEntry[] {
+      return [];
+    }
+  }
+
+  class ResizeObserverShim {
+    readonly elements = new Set<Element>();
+
+    constructor(readonly callback: ResizeObserverCallback) {}
+
+    observe(element: Element) {
+      this.elements.add(element);
+      resizeObservers.add(this);
+    }
+
+    unobserve(element: Element) {
+      this.elements.delete(element);
+    }
+
+    disconnect() {
+      this.elements.clear();
+      resizeObservers.delete(this);
+    }
+  }
+
+  globalThis.IntersectionObserver =
+    IntersectionObserverShim as unknown as typeof IntersectionObserver;
+  globalThis.ResizeObserver = ResizeObserverShim as unknown as typeof ResizeObserver;
+  globalThis.requestIdleCallback = callback => {
+    return setTimeout(() =>
+      callback({ didTimeout: false, timeRemaining: () => 50 })
+    ) as unknown as number;
+  };
+  globalThis.cancelIdleCallback = handle => clearTimeout(handle);
+
+  if (originals.requestAnimationFrame == null) {
+    globalThis.requestAnimationFrame = callback => {
+      return setTimeout(() => callback(performance.now())) as unknown as number;
+    };
+    globalThis.cancelAnimationFrame = handle => clearTimeout(handle);
+  }
+
+  const shims: FilejetObserverShims = {
+    intersect(element, isIntersecting = true) {
+      const rect = element.getBoundingClientRect();
+
+      act(() => {
+        for (const observer of [...intersectionObservers]) {
+          if (!observer.elements.has(element)) continue;
+
+          const entry = {
+            target: element,
+            isIntersecting,
+            intersectionRatio: isIntersecting ? 1 : 0,
+            boundingClientRect: rect,
+            intersectionRect: rect,
+            rootBounds: null,
+            time: performance.now()
+          };
+          observer.callback([entry], observer as unknown as IntersectionObserver);
+        }
+      });
+    },
+
+    resize(element, { width, height }) {
+      Object.defineProperty(element, 'clientWidth', { configurable: true, value: width });
+      Object.defineProperty(element, 'clientHeight', { configurable: true, value: height });
+
+      act(() => {
+        for (const observer of [...resizeObservers]) {
+          if (!observer.elements.has(element)) continue;
+
+          const size = [{ inlineSize: width, blockSize: height }];
+          const entry = {
+            target: element,
+            contentRect: {
+              x: 0,
+              y: 0,
+              top: 0,
+              left: 0,
+              right: width,
+              bottom: height,
+              width,
+              height
+            },
+            contentBoxSize: size,
+            borderBoxSize: size,
+            devicePixelContentBoxSize: size
+          };
+          observer.callback(
+            [entry as unknown as ResizeObserverEntry],
+            observer as unknown as ResizeObserver
+          );
+        }
+      });
+    },
+
+    restore() {
+      for (const [name, original] of Object.entries(originals)) {
+        if (original == null) {
+          delete (globalThis as Record<string, unknown>)[name];
+        } else {
+          (globalThis as Record<string, unknown>)[name] = original;
+        }
+      }
+
+      intersectionObservers.clear();
+      resizeObservers.clear();
+      if (activeShims === shims) activeShims = undefined;
+    }
+  };
+
+  activeShims = shims;
+  return shims;
+}
@@ -0,0 +1,33 @@
+import { thumbHashToAverageRGBA } from 'thumbhash';
+import { base64UrlDecode } from './helpers';
+
+export interface ParsedThumbhash {
+  readonly id: string;
+  readonly data: Uint8Array;
+}
+
+/**
+ * Parses the thumbhash string into a more usable format.
+ *
+ * Returns `undefined` when the thumbhash is malformed.
+ */
+export function parseThumbhash(thumbhash: string): ParsedThumbhash | undefined {
+  try {
+    const data = Uint8Array.from(base64UrlDecode(thumbhash), c => c.charCodeAt(0));
+    // Header of the thumbhash has 5 bytes.
+    return data.length >= 5 ? { id: thumbhash, data } : undefined;
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Returns the CSS color of the thumbhash.
+ *
+ * Ultra fast average color calculation, so it can be used before the thumbhash is decoded.
+ */
+export function thumbhashAverageColor(thumbhash: ParsedThumbhash): string {
+  const { r, g, b, a } = thumbHashToAverageRGBA(thumbhash.data);
+  const { round } = Math;
+  return `rgba(${round(255 * r)},${round(255 * g)},${round(255 * b)},${a})`;
+}
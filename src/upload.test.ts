@@ -0,0 +1,251 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FilejetUploadClient, FilejetUploadError, UploadProgress } from './upload';
+
+const retry = { attempts: 2, baseDelay: 0, maxDelay: 0 };
+
+interface SentRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly headers: Record<string, string>;
+}
+
+/**
+ * Resumable upload server which stores the received bytes of each session.
+ */
+function createServer(failures: number[] = []) {
+  const requests: SentRequest[] = [];
+  const sessions = new Map<string, { size: number; received: number }>();
+
+  const fetch = vi.fn(async (url: string | URL | Request, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    requests.push({ method, url: String(url), headers });
+
+    if (failures.includes(requests.length)) return new Response(null, { status: 503 });
+
+    const path = new URL(String(url)).pathname;
+    if (path === '/upload') return Response.json({ fileId: 'file-small' });
+
+    if (path === '/upload/sessions') {
+      const { size } = JSON.parse(String(init.body));
+      sessions.set(`upload-${sessions.size + 1}`, { size, received: 0 });
+      return Response.json({ uploadId: `upload-${sessions.size}` });
+    }
+
+    const session = sessions.get(decodeURIComponent(path.slice('/upload/sessions/'.length)))!;
+    const range = /^bytes (\d+)-(\d+)\/\d+$/.exec(headers['Content-Range']);
+
+    if (range != null) {
+      const start = Number(range[1]);
+      const chunk = init.body as Blob;
+      if (start !== session.received) return new Response(null, { status: 409 });
+      session.received += chunk.size;
+    }
+
+    return Response.json(
+      session.received === session.size ? { fileId: 'file-chunked' } : { offset: session.received }
+    );
+  });
+
+  return { fetch, requests, sessions };
+}
+
+const file = new Blob([new Uint8Array(10)], { type: 'image/png' });
+
+describe('FilejetUploadClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uploads the small file in a single request', async () => {
+    const server = createServer();
+    const client = new FilejetUploadClient({ domain: 'cdn.filejet.io', fetch: server.fetch });
+    const progress: UploadProgress[] = [];
+
+    const result = await client.upload(file, {
+      name: 'photo.png',
+      onProgress: p => progress.push(p)
+    });
+
+    expect(result).toEqual({ fileId: 'file-small' });
+    expect(server.requests).toEqual([
+      {
+        method: 'POST',
+        url: 'https://cdn.filejet.io/upload',
+        headers: {
+          'Content-Type': 'image/png',
+          'Content-Disposition': "attachment; filename*=UTF-8''photo.png"
+        }
+      }
+    ]);
+    expect(progress).toEqual([{ loaded: 10, total: 10 }]);
+  });
+
+  it('splits the large file into chunks', async () => {
+    const server = createServer();
+    const client = new FilejetUploadClient({
+      domain: 'cdn.filejet.io',
+      chunkSize: 4,
+      fetch: server.fetch
+    });
+    const progress: UploadProgress[] = [];
+
+    const result = await client.upload(file, { onProgress: p => progress.push(p) });
+
+    expect(result).toEqual({ fileId: 'file-chunked' });
+    expect(server.requests.map(r => [r.method, r.headers['Content-Range']])).toEqual([
+      ['POST', undefined],
+      ['PUT', 'bytes 0-3/10'],
+      ['PUT', 'bytes 4-7/10'],
+      ['PUT', 'bytes 8-9/10']
+    ]);
+    expect(progress.map(p => p.loaded)).toEqual([0, 4, 8, 10]);
+  });
+
+  it('retries the failed chunk from the offset confirmed by the server', async () => {
+    const server = createServer([3]);
+    const client = new FilejetUploadClient({
+      domain: 'cdn.filejet.io',
+      chunkSize: 4,
+      retry,
+      fetch: server.fetch
+    });
+
+    const result = await client.upload(file);
+
+    expect(result).toEqual({ fileId: 'file-chunked' });
+    expect(server.requests.map(r => r.headers['Content-Range'])).toEqual([
+      undefined,
+      'bytes 0-3/10',
+      'bytes 4-7/10',
+      'bytes */10',
+      'bytes 4-7/10',
+      'bytes 8-9/10'
+    ]);
+  });
+
+  it('fails with the upload ID when the retries are exhausted', async () => {
+    const server = createServer([3, 4, 5, 6]);
+    const client = new FilejetUploadClient({
+      domain: 'cdn.filejet.io',
+      chunkSize: 4,
+      retry,
+      fetch: server.fetch
+    });
+
+    const error = await client.upload(file).catch(error => error);
+
+    expect(error).toBeInstanceOf(FilejetUploadError);
+    expect(error).toMatchObject({ status: 503, uploadId: 'upload-1' });
+  });
+
+  it('resumes the upload from the offset of the session', async () => {
+    const server = createServer();
+    server.sessions.set('upload-1', { size: 10, received: 8 });
+    const client = new FilejetUploadClient({
+      domain: 'cdn.filejet.io',
+      chunkSize: 4,
+      fetch: server.fetch
+    });
+
+    const result = await client.upload(file, { uploadId: 'upload-1' });
+
+    expect(result).toEqual({ fileId: 'file-chunked' });
+    expect(server.requests.map(r => [r.method, r.headers['Content-Range']])).toEqual([
+      ['PUT', 'bytes */10'],
+      ['PUT', 'bytes 8-9/10']
+    ]);
+  });
+
+  it('does not send the chunk again when the server completed the upload', async () => {
+    const server = createServer();
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const response = await server.fetch(url, init);
+      // The last chunk is received, but its response is lost.
+      return server.requests.length === 4 ? new Response(null, { status: 503 }) : response;
+    });
+    const client = new FilejetUploadClient({
+      domain: 'cdn.filejet.io',
+      chunkSize: 4,
+      retry,
+      fetch
+    });
+
+    const result = await client.upload(file);
+
+    expect(result).toEqual({ fileId: 'file-chunked' });
+    expect(server.requests.map(r => r.headers['Content-Range'])).toEqual([
+      undefined,
+      'bytes 0-3/10',
+      'bytes 4-7/10',
+      'bytes 8-9/10',
+      'bytes */10'
+    ]);
+  });
+
+  it('fails when the offset of the session does not move forward', async () => {
+    const server = createServer();
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const response = await server.fetch(url, init);
+      return server.requests.length === 3 ? Response.json({ offset: 4 }) : response;
+    });
+    const client = new FilejetUploadClient({ domain: 'cdn.filejet.io', chunkSize: 4, fetch });
+
+    const error = await client.upload(file).catch(error => error);
+
+    expect(error).toBeInstanceOf(FilejetUploadError);
+    expect(error).toMatchObject({
+      message: 'Invalid response of the upload server!',
+      uploadId: 'upload-1'
+    });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('fails when the response has neither the offset nor the file ID', async () => {
+    const fetch = vi.fn(async (url: string | URL | Request) =>
+      String(url).endsWith('/sessions')
+        ? Response.json({ uploadId: 'upload-1' })
+        : Response.json({})
+    );
+    const client = new FilejetUploadClient({ domain: 'cdn.filejet.io', chunkSize: 4, fetch });
+
+    await expect(client.upload(file)).rejects.toThrow('Invalid response of the upload server!');
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await expect(client.upload(new Blob(['abc']))).rejects.toThrow(
+      'Invalid response of the upload server!'
+    );
+  });
+
+  it('reports the progress of the small file as the bytes are sent', async () => {
+    class FakeXMLHttpRequest {
+      status = 0;
+      statusText = '';
+      response: Blob | null = null;
+      responseType = '';
+      upload: { onprogress?: (event: { loaded: number }) => void } = {};
+      onload?: () => void;
+
+      open() {}
+
+      setRequestHeader() {}
+
+      send(body: Blob) {
+        this.upload.onprogress?.({ loaded: 4 });
+        this.upload.onprogress?.({ loaded: body.size });
+        this.status = 200;
+        this.response = new Blob([JSON.stringify({ fileId: 'file-xhr' })]);
+        this.onload?.();
+      }
+    }
+    vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+
+    const client = new FilejetUploadClient({ domain: 'cdn.filejet.io' });
+    const progress: UploadProgress[] = [];
+
+    const result = await client.upload(file, { onProgress: p => progress.push(p) });
+
+    expect(result).toEqual({ fileId: 'file-xhr' });
+    expect(progress.map(p => p.loaded)).toEqual([4, 10, 10]);
+  });
+});
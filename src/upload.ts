@@ -0,0 +1,479 @@
+export type UploadSource = Blob | ArrayBuffer | Uint8Array;
+
+export interface UploadRetryPolicy {
+  /**
+   * The maximum number of retries of a single request.
+   */
+  readonly attempts: number;
+
+  /**
+   * The delay before the first retry in milliseconds. Doubled with every retry.
+   */
+  readonly baseDelay: number;
+
+  /**
+   * The maximum delay between retries in milliseconds.
+   */
+  readonly maxDelay: number;
+}
+
+export interface FilejetUploadClientProps {
+  /**
+   * Filejet domain.
+   *
+   * @example 'cdn.filejet.io'
+   */
+  readonly domain: string;
+
+  /**
+   * Upload endpoint.
+   *
+   * @default `https://${domain}/upload`
+   */
+  readonly endpoint?: string;
+
+  /**
+   * Returns additional headers (e.g. authorization) sent with every request.
+   */
+  readonly headers?: () => Record<string, string> | Promise<Record<string, string>>;
+
+  /**
+   * Files larger than this size (in bytes) are uploaded in chunks which can be resumed.
+   *
+   * @default 5242880 (5 MiB)
+   */
+  readonly chunkSize?: number;
+
+  /**
+   * Retry policy for transient failures (network errors, 408, 429 and 5xx responses).
+   *
+   * @default { attempts: 3, baseDelay: 500, maxDelay: 10000 }
+   */
+  readonly retry?: UploadRetryPolicy;
+
+  /**
+   * Custom `fetch` implementation.
+   *
+   * @default globalThis.fetch
+   */
+  readonly fetch?: typeof fetch;
+}
+
+export interface UploadProgress {
+  /**
+   * The number of uploaded bytes.
+   */
+  readonly loaded: number;
+
+  /**
+   * The total number of bytes to upload.
+   */
+  readonly total: number;
+}
+
+export interface UploadOptions {
+  /**
+   * The name of the file. Defaults to the name of the `File`.
+   */
+  readonly name?: string;
+
+  /**
+   * The MIME type of the file. Defaults to the type of the `Blob`.
+   */
+  readonly type?: string;
+
+  /**
+   * Signal to cancel the upload.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Called whenever the upload progresses.
+   *
+   * Progress is reported as the bytes are sent when the `XMLHttpRequest` is available and no custom `fetch` is set,
+   * otherwise once the file (or each chunk) is uploaded.
+   */
+  readonly onProgress?: (progress: UploadProgress) => void;
+
+  /**
+   * ID of the chunked upload to resume.
+   *
+   * Available in `FilejetUploadError.uploadId` when the chunked upload fails.
+   */
+  readonly uploadId?: string;
+}
+
+export interface UploadResult {
+  /**
+   * Filejet file ID of the uploaded file.
+   *
+   * Can be passed directly into `filejetImg` or `Img` as `src`.
+   */
+  readonly fileId: string;
+}
+
+export class FilejetUploadError extends Error {
+  constructor(
+    message: string,
+    /**
+     * HTTP status of the failed request, if any.
+     */
+    readonly status: number | undefined,
+    /**
+     * ID of the chunked upload which can be resumed, if any.
+     */
+    readonly uploadId: string | undefined
+  ) {
+    super(message);
+    this.name = 'FilejetUploadError';
+  }
+}
+
+interface UploadRequest {
+  readonly method: string;
+  readonly path?: string;
+  readonly body?: BodyInit;
+  readonly headers?: Record<string, string>;
+}
+
+interface UploadSession {
+  readonly offset: number;
+  readonly fileId?: string;
+}
+
+const defaultChunkSize = 5 * 1024 * 1024;
+
+const defaultRetry: UploadRetryPolicy = { attempts: 3, baseDelay: 500, maxDelay: 10_000 };
+
+/**
+ * Framework-agnostic client which uploads files into the Filejet.
+ */
+export class FilejetUploadClient {
+  private readonly endpoint: string;
+  private readonly chunkSize: number;
+  private readonly retry: UploadRetryPolicy;
+
+  constructor(private readonly props: FilejetUploadClientProps) {
+    this.endpoint = props.endpoint ?? `https://${props.domain}/upload`;
+    this.chunkSize = props.chunkSize ?? defaultChunkSize;
+    this.retry = props.retry ?? defaultRetry;
+  }
+
+  /**
+   * Uploads the file and returns its Filejet file ID.
+   */
+  async upload(source: UploadSource, options: UploadOptions = {}): Promise<UploadResult> {
+    const blob = toBlob(source);
+    const name = options.name ?? (isFile(source) ? source.name : undefined);
+    const type = options.type || blob.type || 'application/octet-stream';
+
+    options.signal?.throwIfAborted();
+
+    if (blob.size <= this.chunkSize && options.uploadId == null) {
+      const response = await this.request(
+        undefined,
+        options.signal,
+        () => ({
+          method: 'POST',
+          body: blob,
+          headers: {
+            'Content-Type': type,
+            ...(name != null && { 'Content-Disposition': contentDisposition(name) })
+          }
+        }),
+        undefined,
+        options.onProgress && (loaded => options.onProgress?.({ loaded, total: blob.size }))
+      );
+
+      const { fileId } = await readJson(response, undefined);
+      if (typeof fileId !== 'string' || fileId === '') throw invalidResponse(response, undefined);
+
+      options.onProgress?.({ loaded: blob.size, total: blob.size });
+      return { fileId };
+    }
+
+    return this.uploadChunked(blob, name, type, options);
+  }
+
+  /**
+   * Uploads the file in chunks through the resumable upload session:
+   *
+   * - `POST /sessions` creates the session and returns `{ uploadId }`.
+   * - `PUT /sessions/:uploadId` with `Content-Range: bytes <start>-<end>/<size>` uploads the chunk.
+   * - `PUT /sessions/:uploadId` with `Content-Range: bytes *\/<size>` queries the session.
+   *
+   * Both `PUT` requests return `{ offset }` of the next expected byte or `{ fileId }` when completed.
+   * Offset of the uploaded chunk must move forward, so the broken server cannot loop the upload forever.
+   */
+  private async uploadChunked(
+    blob: Blob,
+    name: string | undefined,
+    type: string,
+    options: UploadOptions
+  ): Promise<UploadResult> {
+    const { signal } = options;
+
+    const uploadId = options.uploadId ?? (await this.createSession(blob, name, type, signal));
+
+    const path = `/sessions/${encodeURIComponent(uploadId)}`;
+    const chunk = (start: number) => {
+      const end = Math.min(start + this.chunkSize, blob.size);
+      return {
+        method: 'PUT',
+        path,
+        body: blob.slice(start, end),
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range':
+            start < end ? `bytes ${start}-${end - 1}/${blob.size}` : `bytes */${blob.size}`
+        }
+      };
+    };
+    // Empty chunk queries the session.
+    const query = () => chunk(blob.size);
+
+    let session: UploadSession =
+      options.uploadId != null
+        ? await this.request(uploadId, signal, query).then(response =>
+            readSession(response, uploadId, blob.size, 0)
+          )
+        : { offset: 0 };
+
+    while (session.fileId == null) {
+      const { offset } = session;
+      options.onProgress?.({ loaded: offset, total: blob.size });
+
+      const response = await this.request(
+        uploadId,
+        signal,
+        () => chunk(session.offset),
+        // Server might have received the chunk even when the request failed,
+        // so we always continue from the offset confirmed by the server.
+        async () => {
+          const queryResponse = await this.request(uploadId, signal, query);
+          session = await readSession(queryResponse.clone(), uploadId, blob.size, 0);
+          // Completed upload has nothing to retry.
+          return session.fileId != null ? queryResponse : undefined;
+        },
+        options.onProgress &&
+          (loaded => options.onProgress?.({ loaded: offset + loaded, total: blob.size }))
+      );
+      session = await readSession(response, uploadId, blob.size, session.offset + 1);
+    }
+
+    options.onProgress?.({ loaded: blob.size, total: blob.size });
+    return { fileId: session.fileId };
+  }
+
+  private async createSession(
+    blob: Blob,
+    name: string | undefined,
+    type: string,
+    signal: AbortSignal | undefined
+  ): Promise<string> {
+    const response = await this.request(undefined, signal, () => ({
+      method: 'POST',
+      path: '/sessions',
+      body: JSON.stringify({ name, type, size: blob.size }),
+      headers: { 'Content-Type': 'application/json' }
+    }));
+
+    const { uploadId } = await readJson(response, undefined);
+    if (typeof uploadId !== 'string' || uploadId === '') throw invalidResponse(response, undefined);
+    return uploadId;
+  }
+
+  /**
+   * Sends the request and retries it on transient failures with exponential backoff.
+   *
+   * Requests with `onUploadProgress` are sent by the `XMLHttpRequest`, as `fetch` does not report the upload progress.
+   * Response returned by `beforeRetry` completes the request without the retry.
+   */
+  private async request(
+    uploadId: string | undefined,
+    signal: AbortSignal | undefined,
+    createRequest: () => UploadRequest,
+    beforeRetry?: () => Promise<Response | undefined>,
+    onUploadProgress?: (loaded: number) => void
+  ): Promise<Response> {
+    const fetchFn = this.props.fetch ?? globalThis.fetch;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retry.attempts;
+
+      try {
+        if (attempt > 0) {
+          await sleep(backoff(this.retry, attempt), signal);
+          const completedResponse = await beforeRetry?.();
+          if (completedResponse != null) return completedResponse;
+        }
+
+        const { method, path = '', body, headers } = createRequest();
+        const url = `${this.endpoint}${path}`;
+        const init = {
+          method,
+          body,
+          headers: { ...(await this.props.headers?.()), ...headers },
+          signal
+        };
+        const response =
+          onUploadProgress != null &&
+          this.props.fetch == null &&
+          typeof XMLHttpRequest !== 'undefined'
+            ? await xhrFetch(url, init, onUploadProgress)
+            : await fetchFn(url, init);
+
+        if (response.ok) return response;
+
+        if (!canRetry || !isTransientStatus(response.status)) {
+          throw new FilejetUploadError(
+            `Upload failed with status ${response.status}!`,
+            response.status,
+            uploadId
+          );
+        }
+      } catch (error) {
+        if (signal?.aborted || error instanceof FilejetUploadError) throw error;
+        if (!canRetry) {
+          throw new FilejetUploadError(
+            `Upload failed! ${error instanceof Error ? error.message : error}`,
+            undefined,
+            uploadId
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Sends the request by the `XMLHttpRequest` and reports the number of sent bytes.
+ */
+function xhrFetch(
+  url: string,
+  init: {
+    method: string;
+    body: BodyInit | undefined;
+    headers: Record<string, string>;
+    signal: AbortSignal | undefined;
+  },
+  onUploadProgress: (loaded: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    signal?.throwIfAborted();
+
+    const xhr = new XMLHttpRequest();
+
+    xhr.open(init.method, url);
+    xhr.responseType = 'blob';
+    Object.entries(init.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = event => onUploadProgress(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      // Responses with these statuses cannot have a body.
+      const body = [101, 204, 205, 304].includes(xhr.status) ? null : xhr.response;
+      resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText }));
+    };
+    xhr.onerror = xhr.ontimeout = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new TypeError('Network error!'));
+    };
+    xhr.onabort = () => reject(signal?.reason);
+
+    function onAbort() {
+      xhr.abort();
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+}
+
+async function readJson(
+  response: Response,
+  uploadId: string | undefined
+): Promise<{ fileId?: unknown; uploadId?: unknown; offset?: unknown }> {
+  try {
+    const body = await response.json();
+    if (typeof body === 'object' && body != null) return body;
+  } catch {
+    // Handled below.
+  }
+  throw invalidResponse(response, uploadId);
+}
+
+/**
+ * Session is either completed with the `fileId` or expects the next chunk from the `offset`.
+ */
+async function readSession(
+  response: Response,
+  uploadId: string,
+  size: number,
+  minOffset: number
+): Promise<UploadSession> {
+  const { fileId, offset } = await readJson(response, uploadId);
+
+  if (typeof fileId === 'string' && fileId !== '') return { offset: size, fileId };
+
+  if (
+    typeof offset === 'number' &&
+    Number.isInteger(offset) &&
+    offset >= minOffset &&
+    offset <= size
+  ) {
+    return { offset };
+  }
+
+  throw invalidResponse(response, uploadId);
+}
+
+function invalidResponse(response: Response, uploadId: string | undefined): FilejetUploadError {
+  return new FilejetUploadError(
+    'Invalid response of the upload server!',
+    response.status,
+    uploadId
+  );
+}
+
+function toBlob(source: UploadSource): Blob {
+  if (source instanceof Blob) return source;
+  return new Blob([source]);
+}
+
+function isFile(source: UploadSource): source is File {
+  return typeof File !== 'undefined' && source instanceof File;
+}
+
+function contentDisposition(name: string): string {
+  return `attachment; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function backoff(policy: UploadRetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  // Jitter prevents all clients from retrying at the same time.
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,21 @@
+export { decodeThumbhash, failImg, loadImg } from './src/testing/img';
+export { createFilejetInfoMock, FilejetInfoMock } from './src/testing/info';
+export {
+  assertFilejetSrcSet,
+  assertFilejetUrl,
+  FilejetMatcherReceived,
+  FilejetMatchers,
+  filejetMatchers,
+  FilejetSrcSetExpectation,
+  FilejetUrlExpectation,
+  matchFilejetSrcSet,
+  matchFilejetUrl
+} from './src/testing/matchers';
+export {
+  createTestFilejet,
+  FilejetTestConfig,
+  FilejetTestProvider,
+  FilejetTestProviderProps,
+  testFilejetDomain
+} from './src/testing/provider';
+export { FilejetObserverShims, getObserverShims, installObserverShims } from './src/testing/shims';
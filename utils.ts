@@ -1 +1,80 @@
-export { filejetImg, FilejetImgProps, HtmlImgProps, ImgObjectFit } from './src/filejetImg';
+export {
+  filejetBackgroundImage,
+  FilejetBackgroundImage,
+  FilejetBackgroundImageProps
+} from './src/backgroundImage';
+export {
+  filejetImg,
+  FilejetImgProps,
+  FilejetUrlSigner,
+  focalPointToObjectPosition,
+  HtmlImgProps,
+  ImgFocalPoint,
+  ImgGravity,
+  ImgObjectFit
+} from './src/filejetImg';
+export {
+  GalleryLayout,
+  GalleryLayoutTile,
+  justifiedGalleryLayout,
+  JustifiedGalleryLayoutOptions,
+  masonryGalleryLayout,
+  MasonryGalleryLayoutOptions
+} from './src/galleryLayout';
+export {
+  FilejetFileInfo,
+  FilejetInfoClient,
+  FilejetInfoClientProps,
+  FilejetInfoError
+} from './src/info';
+export {
+  createFilejetTransformer,
+  createNextImageLoader,
+  FilejetLoaderOptions,
+  FilejetTransformOperations,
+  NextImageLoaderProps
+} from './src/loaders';
+export { FilejetManifest, FilejetManifestEntry } from './src/manifest';
+export {
+  mutation,
+  Mutation,
+  MutationCrop,
+  MutationFlip,
+  MutationFormat,
+  MutationLike,
+  MutationOperation,
+  MutationRotation
+} from './src/mutation';
+export {
+  parseFilejetUrl,
+  FilejetUrlDescriptor,
+  FilejetUrlSource,
+  ParsedMutation,
+  ParsedResize,
+  ParseFilejetUrlOptions
+} from './src/parseFilejetUrl';
+export {
+  FilejetRoute,
+  FilejetRouteAction,
+  FilejetRoutedSrc,
+  FilejetRoutingOptions,
+  routeFilejetSrc
+} from './src/routing';
+export {
+  signFilejetImg,
+  signFilejetUrl,
+  SignFilejetUrlOptions,
+  verifyFilejetUrl,
+  VerifyFilejetUrlOptions,
+  VerifyFilejetUrlResult
+} from './src/signature';
+export {
+  FilejetUploadClient,
+  FilejetUploadClientProps,
+  FilejetUploadError,
+  UploadOptions,
+  UploadProgress,
+  UploadResult,
+  UploadRetryPolicy,
+  UploadSource
+} from './src/upload';